@@ -0,0 +1,98 @@
+import { ICacheItem } from "./cache-item";
+import { ICacheSerializer } from "./cache-serializer";
+import { EvictionListener } from "./cache-storage";
+
+/** Provides asynchronous storage for cache items, e.g. IndexedDB, a file store or a remote server. */
+export interface IAsyncCacheStorage {
+    /**
+     * Gets an item from the cache.
+     * @param hash A unique hash to identify a cache item.
+     * @returns A promise that resolves to a cache item if it exists; otherwise, undefined.
+     */
+    get(hash: string): Promise<ICacheItem | undefined>;
+
+    /**
+     * Saves an item to the cache.
+     * @param hash A unique hash to identify a cache item.
+     * @param cacheItem An item to be saved to the cache.
+     */
+    set(hash: string, cacheItem: ICacheItem): Promise<void>;
+
+    /**
+     * Determines whether the cache contains an item with the specified hash.
+     * @param hash A unique hash to identify a cache item.
+     * @returns A promise that resolves to true if the cache contains the item; otherwise, false.
+     */
+    has(hash: string): Promise<boolean>;
+
+    /**
+     * Removes an item from the cache.
+     * @param hash A unique hash to identify a cache item.
+     * @returns A promise that resolves to the removed item if it existed; otherwise, undefined.
+     */
+    remove(hash: string): Promise<ICacheItem | undefined>;
+
+    /**
+     * Clears the cache, removes all items.
+     */
+    clear(): Promise<void>;
+
+    /**
+     * Gets all items in the cache.
+     * @returns A promise that resolves to pairs of hashes and cache items.
+     */
+    entries(): Promise<[string, ICacheItem][]>;
+
+    /**
+     * Gets multiple items from the cache at once.
+     * Storages that can read items in bulk (e.g. in one transaction) implement it; otherwise items are read one by one.
+     * @param hashes Unique hashes to identify cache items.
+     * @returns A promise that resolves to cache items in the same order as the hashes, with undefined for missing items.
+     */
+    getMany?(hashes: string[]): Promise<(ICacheItem | undefined)[]>;
+
+    /**
+     * Saves multiple items to the cache at once.
+     * Storages that can write items in bulk implement it; otherwise items are saved one by one.
+     * @param entries Pairs of hashes and cache items.
+     */
+    setMany?(entries: [string, ICacheItem][]): Promise<void>;
+
+    /**
+     * Removes multiple items from the cache at once.
+     * Storages that can remove items in bulk implement it; otherwise items are removed one by one.
+     * @param hashes Unique hashes to identify cache items.
+     * @returns A promise that resolves to the removed items in the same order as the hashes.
+     */
+    removeMany?(hashes: string[]): Promise<(ICacheItem | undefined)[]>;
+
+    /**
+     * Gets an item without using it, e.g. to check whether it exists, so it does not affect which items are evicted.
+     * Storages that track how items are used (e.g. for eviction) implement it; otherwise items are read by @see get.
+     * @param hash A unique hash to identify a cache item.
+     * @returns A promise that resolves to a cache item if it exists; otherwise, undefined.
+     */
+    peek?(hash: string): Promise<ICacheItem | undefined>;
+
+    /**
+     * Saves the access time of an item that uses sliding expiration, after the item was read.
+     * Storages that return copies of items (e.g. from disk) implement it to persist the access time.
+     * @param hash A unique hash to identify a cache item.
+     * @param cacheItem The item that was read, with an updated access time.
+     */
+    touch?(hash: string, cacheItem: ICacheItem): Promise<void>;
+
+    /**
+     * Registers a listener that is called when the storage evicts an item on its own.
+     * Storages that never evict items do not need to implement it.
+     * @param listener The listener to register.
+     */
+    addEvictionListener?(listener: EvictionListener): void;
+
+    /**
+     * Replaces the serializer of a storage which saves items as text.
+     * Storages that keep items as they are (e.g. in memory) do not need to implement it.
+     * @param serializer The serializer to use.
+     */
+    useSerializer?(serializer: ICacheSerializer): void;
+}
@@ -0,0 +1,47 @@
+import { IBroadcastChannel } from "./broadcast-channel";
+import { IInvalidationMessage } from "./invalidation-message";
+import { IInvalidationTransport } from "./invalidation-transport";
+
+/**
+ * An invalidation transport over a broadcast channel, e.g. between tabs and workers of a browser,
+ * or between worker threads of Node.js.
+ */
+export class BroadcastChannelTransport implements IInvalidationTransport {
+    private _channel: IBroadcastChannel;
+
+    private _listeners = new Set<(message: IInvalidationMessage) => void>();
+
+    /**
+     * Creates an invalidation transport over a broadcast channel.
+     * @param channel A broadcast channel, or the name of a channel to create with the global `BroadcastChannel`.
+     */
+    constructor(channel: IBroadcastChannel | string = "managed-cache") {
+        this._channel = typeof channel === "string" ? new BroadcastChannel(channel) : channel;
+    }
+
+    /** @inheritdoc */
+    public publish(message: IInvalidationMessage): void {
+        this._channel.postMessage(message);
+    }
+
+    /** @inheritdoc */
+    public subscribe(listener: (message: IInvalidationMessage) => void): () => void {
+        this._listeners.add(listener);
+        this._channel.onmessage = ({ data }) => this._listeners.forEach(callback => callback(data));
+        return () => {
+            this._listeners.delete(listener);
+            if (this._listeners.size === 0) {
+                // A channel with a listener keeps Node.js running
+                this._channel.onmessage = null;
+            }
+        };
+    }
+
+    /**
+     * Closes the broadcast channel. Messages are no longer sent or received.
+     */
+    public close(): void {
+        this._listeners.clear();
+        this._channel.close();
+    }
+}
@@ -0,0 +1,17 @@
+/**
+ * A broadcast channel, e.g. `BroadcastChannel` of browsers, or of the `worker_threads` module of Node.js.
+ * Only the members used by @see BroadcastChannelTransport are declared.
+ */
+export interface IBroadcastChannel {
+    /** A function that is called when a message is received. */
+    onmessage: ((event: MessageEvent) => void) | null;
+
+    /**
+     * Sends a message to other channels with the same name.
+     * @param message The message, which is copied by the structured clone algorithm.
+     */
+    postMessage(message: unknown): void;
+
+    /** Closes the channel. */
+    close(): void;
+}
@@ -0,0 +1,19 @@
+/** Compresses serialized records, e.g. @see gzipCompression in the Node.js entry point. */
+export interface ICacheCompression {
+    /** The name of the compression, which is saved with records, so records are only decompressed by the same compression. */
+    readonly name: string;
+
+    /**
+     * Compresses text.
+     * @param text The text to compress.
+     * @returns The compressed text.
+     */
+    compress(text: string): string;
+
+    /**
+     * Decompresses text.
+     * @param text The compressed text.
+     * @returns The original text.
+     */
+    decompress(text: string): string;
+}
@@ -0,0 +1,17 @@
+/**
+ * Conditions to determine whether a value should be cached, e.g. to skip empty or error-shaped results.
+ * @template P The types of the parameters used to get values, e.g. of a wrapped function.
+ */
+export interface ICacheConditions<P extends unknown[] = unknown[]> {
+    /**
+     * A function that takes a value and the parameters used to get it, and returns whether the value should be cached.
+     * For a promise, it takes the resolved value, and the promise is removed from the cache if it returns false.
+     */
+    shouldCache?: (value: unknown, ...parameters: P) => boolean;
+
+    /**
+     * A function that takes a value, and returns true if the value should not be cached, e.g. `value => value === undefined`.
+     * For a promise, it takes the resolved value, and the promise is removed from the cache if it returns true.
+     */
+    unless?: (value: unknown) => boolean;
+}
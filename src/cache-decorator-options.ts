@@ -0,0 +1,34 @@
+import { CacheManager } from "./cache-manager";
+import { ICacheOptions } from "./cache-options";
+
+/**
+ * A cache manager, or the name of a cache manager which is resolved by @see getCacheManager
+ * when a decorated method is called for the first time.
+ */
+export type CacheManagerReference = CacheManager | string;
+
+/**
+ * A method decorated with @see cache, as its class and its name, e.g. `[UserService, "getUser"]`.
+ * A function that returns them, e.g. `() => [UserService, "getUser"]`, can refer to the class that is being decorated,
+ * which standard decorators cannot access until the class is defined.
+ */
+// eslint-disable-next-line @typescript-eslint/ban-types
+export type CachedMethodReference = [Function, string | symbol] | (() => [Function, string | symbol]);
+
+/**
+ * Determines which calls of a decorated method share cached values.
+ * - class: All instances of the class share cached values.
+ * - instance: Each instance has its own cached values.
+ * - A function that takes the instance as 'this', and returns a key. Instances with the same key share cached values.
+ *   The key should be a primitive value (e.g. a tenant ID), so it can be matched when removing cached values.
+ */
+export type CacheScope = "class" | "instance" | (() => unknown);
+
+/** Options to control the caching behavior of a decorated method. */
+export interface ICacheDecoratorOptions extends ICacheOptions {
+    /** Determines which calls of the decorated method share cached values. Defaults to "class". */
+    scope?: CacheScope;
+
+    /** The cache manager of the decorated method. Defaults to the manager of the decorator, @see createCacheDecorator. */
+    manager?: CacheManagerReference;
+}
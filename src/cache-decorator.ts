@@ -1,34 +1,475 @@
-import { cacheManager } from "./cache-manager";
+import { CachedMethodReference, CacheManagerReference, CacheScope, ICacheDecoratorOptions } from "./cache-decorator-options";
+import { ICacheEvictOptions } from "./cache-evict-options";
+import { ICacheInvalidation } from "./cache-invalidation";
+import { ICacheItem } from "./cache-item";
+import { CacheManager, cacheManager } from "./cache-manager";
 import { ICacheOptions } from "./cache-options";
+import { ICachePutOptions } from "./cache-put-options";
+import { getCacheManager } from "./cache-registry";
+import { chain, MaybePromise } from "./maybe-promise";
+import { IMethodDecoratorContext } from "./method-decorator-context";
+import { registerWrapper } from "./wrapped-functions";
 
 /**
- * Decorates a class method so its result will be cached.
- * @param policy The optional cache policy.
+ * A method decorator of this library, e.g. @see cache. It supports both legacy decorators (`experimentalDecorators`),
+ * and standard decorators of TypeScript 5.
+ */
+export type CacheMethodDecorator = MethodDecorator
+    & (<F extends (...parameters: never[]) => unknown>(method: F, context: IMethodDecoratorContext) => F);
+
+/** A method that is decorated with a scope other than "class". */
+interface IScopedMethod {
+    // eslint-disable-next-line @typescript-eslint/ban-types
+    target: Object;
+    propertyName: string | symbol;
+    scope: Exclude<CacheScope, "class">;
+    reference: CacheManagerReference;
+}
+
+/**
+ * Methods decorated with a scope other than "class", by their targets, i.e. prototypes of classes,
+ * or classes for static methods. Classes that are no longer used are collected with their methods.
+ */
+// eslint-disable-next-line @typescript-eslint/ban-types
+const scopedMethods = new WeakMap<Object, IScopedMethod[]>();
+
+/** A method decorated with @see cache, which can be the target of @see cacheEvict and @see cachePut. */
+interface ICachedMethod {
+    reference: CacheManagerReference;
+    options: ICacheDecoratorOptions | undefined;
+}
+
+/** Methods decorated with @see cache, by the functions that replace them. */
+// eslint-disable-next-line @typescript-eslint/ban-types
+const cachedMethods = new WeakMap<Function, ICachedMethod>();
+
+/** The target of @see cacheEvict or @see cachePut, resolved for a call of a decorated method. */
+interface IResolvedTarget {
+    manager: CacheManager;
+    // eslint-disable-next-line @typescript-eslint/ban-types
+    owner: Object;
+    propertyName: string | symbol;
+    thisParameter: unknown;
+    method: (...parameters: unknown[]) => unknown;
+    options: ICacheOptions;
+}
+
+/** Unique keys of instances, used by methods with the "instance" scope. */
+const instanceKeys = new WeakMap<object, string>();
+let instanceCount = 0;
+
+/**
+ * Gets the key of the scope that an instance belongs to.
+ * @param scope The scope of a decorated method.
+ * @param instance The instance that the method is called on.
+ */
+function getScopeKey(scope: Exclude<CacheScope, "class">, instance: unknown): unknown {
+    if (typeof scope === "function") {
+        return scope.call(instance);
+    }
+
+    if (typeof instance !== "object" || instance === null) {
+        return instance;
+    }
+
+    let key = instanceKeys.get(instance);
+    if (key === undefined) {
+        key = `instance:${++instanceCount}`;
+        instanceKeys.set(instance, key);
+    }
+
+    return key;
+}
+
+/**
+ * Resolves a cache manager.
+ * @param reference A cache manager, or its name.
+ */
+function resolveManager(reference: CacheManagerReference): CacheManager {
+    return typeof reference === "string" ? getCacheManager(reference) : reference;
+}
+
+/**
+ * Gets the cache options of a decorated method.
+ * @param target The target being decorated, i.e. the prototype of a class, or a class for static methods.
+ * @param propertyName The name of the method being decorated.
+ * @param options The optional cache options.
+ */
+// eslint-disable-next-line @typescript-eslint/ban-types
+function getCacheOptions(target: Object, propertyName: string | symbol, options: ICacheDecoratorOptions | undefined): ICacheOptions {
+    // By default, cache policy is determined by the which method is being wrapped
+    const cacheOptions = { policyKey: [target.constructor, propertyName] };
+    return Object.assign(cacheOptions, options);
+}
+
+/**
+ * Wraps a decorated method, so its results will be cached.
+ * @param defaultManager The cache manager used if the options do not specify one.
+ * @param options The optional cache options.
+ * @param target The target being decorated, i.e. the prototype of a class, or a class for static methods.
+ * @param propertyName The name of the method being decorated.
+ * @param method The method being decorated.
+ * @returns The wrapped method.
+ */
+function wrapMethod(
+    defaultManager: CacheManagerReference,
+    options: ICacheDecoratorOptions | undefined,
+    // eslint-disable-next-line @typescript-eslint/ban-types
+    target: Object,
+    propertyName: string | symbol,
+    method: (...parameters: unknown[]) => unknown): (...parameters: unknown[]) => unknown {
+
+    const cacheOptions = getCacheOptions(target, propertyName, options);
+    const reference = (options && options.manager) || defaultManager;
+    const scope = options && options.scope;
+    let getKey: (parameters: unknown[], thisParameter: unknown) => unknown;
+    if (!scope || scope === "class") {
+        getKey = parameters => [target.constructor, propertyName, ...parameters];
+    } else {
+        const methods = scopedMethods.get(target) || [];
+        methods.push({ target, propertyName, scope, reference });
+        scopedMethods.set(target, methods);
+        getKey = (parameters, thisParameter) => [target.constructor, propertyName, getScopeKey(scope, thisParameter), ...parameters];
+    }
+
+    if (typeof reference !== "string") {
+        return reference.wrap(method, cacheOptions, getKey);
+    }
+
+    // Resolve the manager when the method is called, so it can be registered after the class is defined
+    let wrapped: typeof method | undefined;
+    const resolve = (): typeof method => wrapped = wrapped || getCacheManager(reference).wrap(method, cacheOptions, getKey);
+    const wrapper = function (this: unknown, ...parameters: unknown[]): unknown {
+        return resolve().apply(this, parameters);
+    };
+    registerWrapper(wrapper, resolve);
+    return wrapper;
+}
+
+/**
+ * Finds the target that a method was decorated on, i.e. the object in the prototype chain of 'this'
+ * that owns the decorated method.
+ * @param thisParameter An instance of the class, or the class for static methods.
+ * @param propertyName The name of the decorated method.
+ * @param decorated The decorated method.
+ */
+// eslint-disable-next-line @typescript-eslint/ban-types
+function findTarget(thisParameter: unknown, propertyName: string | symbol, decorated: unknown): Object {
+    let target = thisParameter;
+    while ((typeof target === "object" && target !== null) || typeof target === "function") {
+        const descriptor = Object.getOwnPropertyDescriptor(target, propertyName);
+        if (descriptor && descriptor.value === decorated) {
+            return target;
+        }
+
+        target = Object.getPrototypeOf(target);
+    }
+
+    throw new Error(`The decorated method ${String(propertyName)} must be called on its class or an instance of it.`);
+}
+
+/**
+ * Decorates a class method so its result will be cached, as a legacy decorator.
+ * @param defaultManager The cache manager used if the options do not specify one.
+ * @param options The optional cache options.
  * @param target The target being decorated. It should be a class instance.
  * @param propertyName The name of the property being decorated.
  * @param descriptor The descriptor of the property being decorated.
  */
 function cacheDecorator(
-    options: ICacheOptions | undefined,
+    defaultManager: CacheManagerReference,
+    options: ICacheDecoratorOptions | undefined,
     // eslint-disable-next-line @typescript-eslint/ban-types
     target: Object,
     propertyName: string | symbol,
     descriptor: PropertyDescriptor): PropertyDescriptor {
 
-    // Save a copy of the method being decorated
-    const method = descriptor.value;
+    descriptor.value = wrapMethod(defaultManager, options, target, propertyName, descriptor.value);
+    cachedMethods.set(descriptor.value, { reference: (options && options.manager) || defaultManager, options });
+    return descriptor;
+}
 
-    // By default, cache policy is determined by the which method is being wrapped
-    const cacheOptions = { policyKey: [target.constructor, propertyName] };
-    Object.assign(cacheOptions, options);
-    descriptor.value = cacheManager.wrap(
-        method,
-        cacheOptions,
-        parameters => [target.constructor, propertyName, ...parameters]);
+/**
+ * Decorates a class method so its result will be cached, as a standard decorator.
+ * The target of the method is not known until an instance is created, so the method is wrapped then.
+ * @param defaultManager The cache manager used if the options do not specify one.
+ * @param options The optional cache options.
+ * @param method The method being decorated.
+ * @param context The context of the method being decorated.
+ * @returns The method that replaces the decorated method.
+ */
+function standardCacheDecorator(
+    defaultManager: CacheManagerReference,
+    options: ICacheDecoratorOptions | undefined,
+    method: (...parameters: unknown[]) => unknown,
+    context: IMethodDecoratorContext): (...parameters: unknown[]) => unknown {
 
-    return descriptor;
+    const { name } = context;
+    // eslint-disable-next-line @typescript-eslint/ban-types
+    let target: Object | undefined;
+    let wrapped: typeof method | undefined;
+    const decorated = function (this: unknown, ...parameters: unknown[]): unknown {
+        return resolve(this).apply(this, parameters);
+    };
+    function resolve(thisParameter: unknown): typeof method {
+        target = target || findTarget(thisParameter, name, decorated);
+        return wrapped = wrapped || wrapMethod(defaultManager, options, target, name, method);
+    }
+    context.addInitializer(function (this: unknown) {
+        target = target || findTarget(this, name, decorated);
+    });
+    registerWrapper(decorated, resolve);
+    cachedMethods.set(decorated, { reference: (options && options.manager) || defaultManager, options });
+    return decorated;
+}
+
+/**
+ * Determines whether a decorator is called as a standard decorator.
+ * @param context The second argument of the decorator.
+ */
+function isStandardContext(context: unknown): context is IMethodDecoratorContext {
+    return typeof context === "object" && context !== null && (context as IMethodDecoratorContext).kind === "method";
 }
 
-export function cache(options?: ICacheOptions): MethodDecorator {
-    return cacheDecorator.bind(undefined, options);
+/**
+ * Creates a decorator which caches results of a method, either as a legacy or as a standard decorator.
+ * @param defaultManager The cache manager used if the options do not specify one.
+ * @param options The optional cache options.
+ */
+function createDecorator(defaultManager: CacheManagerReference, options: ICacheDecoratorOptions | undefined): CacheMethodDecorator {
+    return function (first: unknown, second: unknown, third?: unknown): unknown {
+        if (isStandardContext(second)) {
+            return standardCacheDecorator(defaultManager, options, first as (...parameters: unknown[]) => unknown, second);
+        }
+
+        // eslint-disable-next-line @typescript-eslint/ban-types
+        return cacheDecorator(defaultManager, options, first as Object, second as string | symbol, third as PropertyDescriptor);
+    } as CacheMethodDecorator;
+}
+
+/**
+ * Creates a decorator which caches results of methods with a cache manager, e.g. so a library can use its own
+ * manager without sharing cached values with the application: `export const cache = createCacheDecorator("my-library");`.
+ * @param manager The cache manager, or its name. The manager can be overridden by @see ICacheDecoratorOptions.manager.
+ * @returns A function that creates method decorators, like @see cache.
+ */
+export function createCacheDecorator(manager: CacheManagerReference): (options?: ICacheDecoratorOptions) => CacheMethodDecorator {
+    return options => createDecorator(manager, options);
+}
+
+/**
+ * Creates a decorator which caches results of a method with the default @see cacheManager,
+ * or the manager specified by the options.
+ * @param options The optional cache options.
+ */
+export const cache = createCacheDecorator(cacheManager);
+
+/**
+ * Finds the cached values of an instance, from all its methods that are decorated with a scope other than "class".
+ * @param instance An instance.
+ * @returns The managers of the methods, and a function that determines whether an item belongs to the instance.
+ */
+function findInstanceCache(instance: object): { managers: CacheManager[]; predicate: (cacheItem: ICacheItem) => boolean } {
+    // Methods are found on the prototype chain of the instance, or on a class for its static methods
+    const methods: IScopedMethod[] = [];
+    for (let target: object | null = instance; target; target = Object.getPrototypeOf(target)) {
+        methods.push(...scopedMethods.get(target) || []);
+    }
+
+    const scopeKeys = methods.map(({ scope }) => getScopeKey(scope, instance));
+    return {
+        managers: [...new Set(methods.map(({ reference }) => resolveManager(reference)))],
+        predicate: ({ key }) => Array.isArray(key) && methods.some(
+            ({ target, propertyName }, i) => key[0] === target.constructor && key[1] === propertyName && key[2] === scopeKeys[i])
+    };
+}
+
+/**
+ * Removes cached values of an instance, from all its methods that are decorated with a scope other than "class".
+ * Instances that share the same scope key (@see CacheScope) also lose their cached values.
+ * The managers of the methods must have synchronous storages, @see removeInstanceCacheAsync.
+ * @param instance An instance, e.g. one that is being disposed.
+ * @returns The number of removed items.
+ */
+export function removeInstanceCache(instance: object): number {
+    const { managers, predicate } = findInstanceCache(instance);
+    return managers.reduce((removed, manager) => removed + manager.removeWhere(predicate), 0);
+}
+
+/**
+ * Removes cached values of an instance, like @see removeInstanceCache.
+ * Works with both synchronous and asynchronous storages.
+ * @param instance An instance, e.g. one that is being disposed.
+ * @returns A promise that resolves to the number of removed items.
+ */
+export async function removeInstanceCacheAsync(instance: object): Promise<number> {
+    const { managers, predicate } = findInstanceCache(instance);
+    const removed = await Promise.all(managers.map(manager => manager.removeWhereAsync(predicate)));
+    return removed.reduce((sum, count) => sum + count, 0);
+}
+
+/**
+ * Resolves the target of @see cacheEvict or @see cachePut for a call of a decorated method.
+ * @param reference The class and the name of a method decorated with @see cache.
+ * @param thisParameter The 'this' parameter of the call. It determines the scope of the target,
+ * if it is an instance of the class of the target.
+ */
+function resolveTarget(reference: CachedMethodReference, thisParameter: unknown): IResolvedTarget {
+    const [type, propertyName] = typeof reference === "function" ? reference() : reference;
+    // Instance methods are found on the prototype, and static methods on the class
+    for (const holder of [type.prototype as object, type]) {
+        const method = (holder as Record<string | symbol, unknown>)[propertyName];
+        const cachedMethod = typeof method === "function" ? cachedMethods.get(method) : undefined;
+        if (typeof method === "function" && cachedMethod) {
+            const owner = findTarget(holder, propertyName, method);
+            const scoped = thisParameter === owner || Object.prototype.isPrototypeOf.call(owner, thisParameter as object);
+            const instance = scoped ? thisParameter : owner;
+            return {
+                manager: resolveManager(cachedMethod.reference),
+                owner,
+                propertyName,
+                thisParameter: instance,
+                method: method.bind(instance),
+                options: getCacheOptions(owner, propertyName, cachedMethod.options)
+            };
+        }
+    }
+
+    throw new Error(`${type.name}.${String(propertyName)} is not decorated with @cache.`);
+}
+
+/**
+ * Gets the cache keys of calls of a target.
+ * @param target The resolved target.
+ * @param calls The parameters of each call.
+ */
+function getTargetKeys(target: IResolvedTarget, calls: unknown[]): unknown[] {
+    return calls.map(parameters => target.manager.keyOf(target.method, ...parameters as unknown[]));
+}
+
+/**
+ * Removes the cached items specified by the options of @see cacheEvict.
+ * @param options The options of the decorator.
+ * @param thisParameter The 'this' parameter of the decorated method.
+ * @param parameters The parameters of the decorated method.
+ * @returns Nothing with a synchronous storage; otherwise, a promise that resolves when the items are removed.
+ */
+function evict(options: ICacheEvictOptions, thisParameter: unknown, parameters: unknown[]): MaybePromise<void> {
+    const { context, keys, allEntries } = options;
+    const target = options.target && resolveTarget(options.target, thisParameter);
+    const manager = options.manager ? resolveManager(options.manager) : (target ? target.manager : cacheManager);
+    const invalidation: ICacheInvalidation = {};
+    if (allEntries) {
+        if (target) {
+            const { owner, propertyName } = target;
+            invalidation.predicate = ({ key }) => Array.isArray(key) && key[0] === owner.constructor && key[1] === propertyName;
+        } else {
+            invalidation.all = true;
+        }
+    } else if (target) {
+        const calls = keys ? keys.apply(thisParameter, parameters) : [parameters];
+        invalidation.keys = getTargetKeys(target, calls);
+    } else if (keys) {
+        invalidation.keys = keys.apply(thisParameter, parameters);
+    }
+
+    const contexts = typeof context === "function" ? context.apply(thisParameter, parameters) : context;
+    if (contexts !== undefined) {
+        invalidation.contexts = Array.isArray(contexts) ? contexts : [contexts];
+    }
+
+    return manager.invalidate(invalidation);
+}
+
+/**
+ * Writes a result of a decorated method to the cache of the target of @see cachePut.
+ * @param options The options of the decorator.
+ * @param thisParameter The 'this' parameter of the decorated method.
+ * @param parameters The parameters of the decorated method.
+ * @param result The result of the decorated method, which is cached as it is, e.g. as a resolved promise.
+ */
+function put(options: ICachePutOptions, thisParameter: unknown, parameters: unknown[], result: unknown): Promise<void> {
+    const target = resolveTarget(options.target, thisParameter);
+    const targetParameters = options.key ? options.key.apply(thisParameter, parameters) : parameters;
+    const [key] = getTargetKeys(target, [targetParameters]);
+    return target.manager.setAsync(key, result, target.thisParameter, targetParameters, target.options);
+}
+
+/**
+ * Runs an invalidation after a decorated method succeeds. Errors of targets that cannot be resolved are thrown.
+ * @param result The result of the decorated method.
+ * @param invalidate A function that starts the invalidation.
+ * @returns The result, or a promise that resolves to the result after the invalidation, if the result is a promise.
+ */
+function invalidateAfter(result: unknown, invalidate: () => MaybePromise<void>): unknown {
+    if (result instanceof Promise) {
+        return result.then(value => chain(invalidate(), () => value));
+    }
+
+    ignoreAsync(invalidate());
+    return result;
+}
+
+/**
+ * Lets an asynchronous invalidation of a synchronous method complete on its own, since nobody can wait for it.
+ * @param invalidation The invalidation, which has already completed with a synchronous storage.
+ */
+function ignoreAsync(invalidation: MaybePromise<void>): void {
+    if (invalidation instanceof Promise) {
+        invalidation.catch(() => undefined);
+    }
+}
+
+/**
+ * Creates a decorator which wraps methods, either as a legacy or as a standard decorator.
+ * @param wrap A function that wraps a decorated method.
+ */
+function createWrappingDecorator(wrap: (method: (...parameters: unknown[]) => unknown) => (...parameters: unknown[]) => unknown): CacheMethodDecorator {
+    return function (first: unknown, second: unknown, third?: unknown): unknown {
+        if (isStandardContext(second)) {
+            return wrap(first as (...parameters: unknown[]) => unknown);
+        }
+
+        const descriptor = third as PropertyDescriptor;
+        descriptor.value = wrap(descriptor.value);
+        return descriptor;
+    } as CacheMethodDecorator;
+}
+
+/**
+ * Creates a decorator which removes cached items when a method is called, e.g. when it updates data.
+ * Items are removed after the method succeeds, or after its promise resolves, unless @see ICacheEvictOptions.beforeInvocation.
+ * With a synchronous storage, items are removed before a synchronous method returns. With an asynchronous storage,
+ * only the promises of asynchronous methods wait for the items to be removed.
+ * @param options The cached items to remove, e.g. `{ target: [StudentService, "getStudent"] }` to remove
+ * the result of `getStudent` with the same parameters.
+ */
+export function cacheEvict(options: ICacheEvictOptions): CacheMethodDecorator {
+    return createWrappingDecorator(method => function (this: unknown, ...parameters: unknown[]): unknown {
+        if (!options.beforeInvocation) {
+            return invalidateAfter(method.apply(this, parameters), () => evict(options, this, parameters));
+        }
+
+        const eviction = evict(options, this, parameters);
+        const result = method.apply(this, parameters);
+        if (result instanceof Promise) {
+            return Promise.all([eviction, result]).then(([, value]) => value);
+        }
+
+        ignoreAsync(eviction);
+        return result;
+    });
+}
+
+/**
+ * Creates a decorator which always calls a method, and writes its result to the cache of a method decorated
+ * with @see cache, e.g. so `updateStudent` refreshes the cached result of `getStudent`. Results are written after
+ * the method succeeds, or after its promise resolves.
+ * @param options The cached method whose cache is written to, and how its parameters are made.
+ */
+export function cachePut(options: ICachePutOptions): CacheMethodDecorator {
+    return createWrappingDecorator(method => function (this: unknown, ...parameters: unknown[]): unknown {
+        const result = method.apply(this, parameters);
+        return invalidateAfter(result, () => put(options, this, parameters, result));
+    });
 }
@@ -0,0 +1,49 @@
+import { ICacheItem } from "./cache-item";
+import { IInvalidationMessage } from "./invalidation-message";
+
+/** Maps the names of cache events to the events passed to their listeners. */
+export interface ICacheEventMap {
+    /** An item was found in the cache. */
+    hit: { key: unknown; cacheItem: ICacheItem; stale: boolean };
+
+    /** No usable item was found in the cache. */
+    miss: { key: unknown; policyKey: unknown };
+
+    /** An item was saved to the cache. */
+    set: { cacheItem: ICacheItem };
+
+    /** An item was removed from the cache. */
+    remove: { cacheItem: ICacheItem };
+
+    /** An expired item was removed from the cache. */
+    expire: { cacheItem: ICacheItem };
+
+    /** An item was evicted by the storage, e.g. because the storage is full. */
+    evict: { cacheItem: ICacheItem };
+
+    /** All items with a context were removed from the cache. */
+    contextRemoved: { context: string };
+
+    /** The cache was cleared. */
+    clear: Record<string, never>;
+
+    /** Items were removed by an invalidation message from a peer, @see ICacheManagerOptions.transport. */
+    invalidate: { message: IInvalidationMessage };
+
+    /**
+     * An item was left out of a snapshot, @see CacheManager.exportSnapshot and @see CacheManager.importSnapshot.
+     * - unserializable: The item could not be serialized, e.g. because it contains functions.
+     * - unreadable: A record could not be deserialized, e.g. because it was written by another serializer.
+     * - readOnly: The item was not imported, because the mode of the manager does not save items.
+     */
+    snapshotSkip: { cacheItem: ICacheItem | undefined; reason: "unserializable" | "unreadable" | "readOnly" };
+
+    /** A wrapped function failed to load a value, including when it refreshes an item in the background. */
+    loadError: { key: unknown; policyKey: unknown; error: unknown };
+}
+
+/** The name of a cache event. */
+export type CacheEventName = keyof ICacheEventMap;
+
+/** A function that is called when a cache event occurs. */
+export type CacheEventListener<K extends CacheEventName> = (event: ICacheEventMap[K]) => void;
@@ -0,0 +1,35 @@
+import { CachedMethodReference, CacheManagerReference } from "./cache-decorator-options";
+
+/**
+ * Options of @see cacheEvict, which determine the cached items to remove when a decorated method is called.
+ * Callbacks take 'this' and the parameters of the decorated method.
+ */
+export interface ICacheEvictOptions {
+    /** A context to remove, or a function that returns contexts to remove. Multiple contexts can be used as an array. */
+    context?: string | string[] | ((...parameters: unknown[]) => string | string[] | undefined);
+
+    /** The cached method whose results are removed. */
+    target?: CachedMethodReference;
+
+    /**
+     * A function that returns the items to remove. With a @see target, each item is an array of the parameters
+     * of a call of the target, e.g. `id => [[id]]`, and defaults to the parameters of the decorated method.
+     * Without a target, items are cache keys, like the keys of @see CacheManager.remove.
+     */
+    keys?: (...parameters: unknown[]) => unknown[];
+
+    /**
+     * Whether to remove all results of the @see target, instead of the results of @see keys.
+     * Without a target, all items of the cache manager are removed.
+     */
+    allEntries?: boolean;
+
+    /**
+     * Whether to remove items before the decorated method is called, even if it fails.
+     * By default, items are removed after the method succeeds, i.e. after its promise resolves.
+     */
+    beforeInvocation?: boolean;
+
+    /** The cache manager to remove items from. Defaults to the manager of the @see target, or the default manager. */
+    manager?: CacheManagerReference;
+}
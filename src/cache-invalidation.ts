@@ -0,0 +1,16 @@
+import { ICacheItem } from "./cache-item";
+
+/** Cached items to remove at once, e.g. when a method decorated with @see cacheEvict is called. */
+export interface ICacheInvalidation {
+    /** Whether to clear the cache. Then keys and the predicate are ignored. */
+    all?: boolean;
+
+    /** Unique keys to identify the items to remove. */
+    keys?: unknown[];
+
+    /** A function that determines whether an item should be removed. */
+    predicate?: (cacheItem: ICacheItem) => boolean;
+
+    /** The contexts to remove. */
+    contexts?: string[];
+}
@@ -0,0 +1,32 @@
+/** Describes a cached item for debugging, @see CacheManager.inspect. */
+export interface ICacheItemInfo {
+    /** The key of the item. */
+    key: unknown;
+
+    /** The context of the item, or multiple contexts. */
+    context?: string | string[];
+
+    /** The key of the cache policy of the item. */
+    policyKey?: unknown;
+
+    /** The time when the item was created. */
+    created: Date;
+
+    /** The time when the item was last accessed. */
+    accessed: Date;
+
+    /** The age of the item in milliseconds, since it was accessed if its age is sliding, or since it was created. */
+    age: number;
+
+    /** The max age of the item. If omitted, the item never expires. */
+    maxAge?: number;
+
+    /** The time to live of the item in milliseconds, which is negative after it expires. Omitted if it never expires. */
+    ttl?: number;
+
+    /** Whether the item has expired. An expired item may still be returned while it is refreshed. */
+    expired: boolean;
+
+    /** Whether the value is a promise, which may not have been resolved yet. */
+    promise: boolean;
+}
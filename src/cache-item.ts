@@ -6,8 +6,8 @@ export interface ICacheItem {
     /** The value that is being cached. */
     value: unknown;
 
-    /** The context of the item. */
-    context?: string;
+    /** The context of the item, or multiple contexts. */
+    context?: string | string[];
 
     /** A unique key to identify the cache policy. If omitted, the item never expires. */
     policyKey?: unknown;
@@ -21,6 +21,30 @@ export interface ICacheItem {
      */
     sliding?: boolean;
 
+    /** How long, in milliseconds, the item can still be returned by a wrapped function after it expires. */
+    staleWhileRevalidate?: number;
+
+    /** A fraction of the max age, after which the item is refreshed in the background. */
+    refreshAhead?: number;
+
+    /**
+     * Whether the item is kept after it expires, to be returned when a wrapped function fails to load a new value.
+     * Or, how long, in milliseconds, it is kept after it expires.
+     */
+    fallbackToStale?: boolean | number;
+
+    /**
+     * Whether the value is an error thrown by a synchronous function, which is thrown again when the item is read.
+     * Rejected promises are cached as they are.
+     */
+    error?: boolean;
+
+    /** The 'this' parameter used to get the value. Only kept if the item can be refreshed. */
+    thisParameter?: unknown;
+
+    /** The parameters used to get the value. Only kept if the item can be refreshed. */
+    parameters?: unknown[];
+
     /** The time when the item was created. */
     created: Date;
 
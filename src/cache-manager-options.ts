@@ -0,0 +1,54 @@
+import { ICacheItem } from "./cache-item";
+import { ICachePolicyRule } from "./cache-policy-rule";
+import { ICacheSerializer } from "./cache-serializer";
+import { IClock } from "./clock";
+import { IInvalidationTransport } from "./invalidation-transport";
+import { KeyHasher } from "./key-hasher";
+
+/** Options to control the behavior of a cache manager. */
+export interface ICacheManagerOptions {
+    /**
+     * The interval, in milliseconds, to periodically remove expired items from the storage.
+     * If omitted, expired items are only removed when they are read. @see CacheManager.startSweeping
+     */
+    sweepInterval?: number;
+
+    /**
+     * A function that is called when refreshing an item in the background fails.
+     * Errors of background refreshes are never thrown to callers of wrapped functions.
+     * @param error The error thrown by the wrapped function.
+     * @param cacheItem The item that was being refreshed.
+     */
+    onRefreshError?: (error: unknown, cacheItem: ICacheItem) => void;
+
+    /**
+     * Calculates hashes of cache keys and policy keys, e.g. @see jsonKeyHasher.
+     * Defaults to @see objectKeyHasher.
+     */
+    keyHasher?: KeyHasher;
+
+    /**
+     * Converts items to text, for storages which save items as text, e.g. @see JsonCacheSerializer with a version
+     * or compression. If omitted, storages use their own serializers.
+     */
+    serializer?: ICacheSerializer;
+
+    /**
+     * A namespace of items, so managers of different namespaces are isolated from each other,
+     * even when they share the same storage. E.g. clearing one manager keeps items of other namespaces.
+     */
+    namespace?: string;
+
+    /**
+     * Delivers invalidations to peers, e.g. managers of other workers with their own memory caches.
+     * Items removed by @see CacheManager.remove, @see CacheManager.removeContext, @see CacheManager.clear
+     * and similar methods are also removed by peers of the same namespace. Expired items are not sent.
+     */
+    transport?: IInvalidationTransport;
+
+    /** Tells the current time, e.g. a manual clock in tests. Defaults to @see systemClock. */
+    clock?: IClock;
+
+    /** Rules to find policies of calls, @see CacheManager.addPolicyRules. */
+    policyRules?: ICachePolicyRule[];
+}
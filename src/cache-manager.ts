@@ -1,17 +1,272 @@
-import * as hash from "object-hash";
+import { IAsyncCacheStorage } from "./async-cache-storage";
+import { CacheEventListener, CacheEventName, ICacheEventMap } from "./cache-events";
+import { ICacheConditions } from "./cache-conditions";
+import { ICacheInvalidation } from "./cache-invalidation";
 import { ICacheItem } from "./cache-item";
+import { ICacheItemInfo } from "./cache-item-info";
+import { ICacheManagerOptions } from "./cache-manager-options";
+import { CacheMode } from "./cache-mode";
 import { ICacheOptions } from "./cache-options";
 import { ICachePolicy } from "./cache-policy";
+import { ICachePolicyConfig } from "./cache-policy-config";
+import { ICachePolicyRule } from "./cache-policy-rule";
+import { CacheRegion } from "./cache-region";
+import { ICacheRegionOptions } from "./cache-region-options";
+import { ICacheSerializer } from "./cache-serializer";
+import { ICacheSnapshot } from "./cache-snapshot";
+import { CacheStatsRecorder, CounterName, ICacheStats } from "./cache-stats";
 import { ICacheStorage } from "./cache-storage";
+import { CircuitBreaker } from "./circuit-breaker";
+import { IClock, systemClock } from "./clock";
+import { IInvalidationMessage } from "./invalidation-message";
+import { JsonCacheSerializer } from "./json-cache-serializer";
+import { KeyHasher, objectKeyHasher } from "./key-hasher";
+import { all, chain, MaybePromise } from "./maybe-promise";
 import { MemoryCache } from "./memory-cache";
+import { findWrapped, getWrapped, IWrappedCall, registerWrapped } from "./wrapped-functions";
+
+/** Cache modes from the one that caches the most to the one that caches the least. */
+const modeOrder: CacheMode[] = ["normal", "readOnly", "bypass", "disabled"];
+
+/** A policy rule with its conditions compiled to regular expressions. */
+interface ICompiledRule {
+    class?: RegExp;
+    method?: RegExp;
+    context?: RegExp;
+    policyKey?: RegExp;
+    policy: ICachePolicy;
+}
+
+/** The version of the format of snapshots, @see CacheManager.exportSnapshot. Snapshots of other versions are ignored. */
+const snapshotVersion = 1;
+
+/**
+ * Converts a glob pattern to a regular expression, where `*` matches any characters and `?` matches a single character.
+ * @param pattern The glob pattern.
+ */
+function globToRegExp(pattern: string): RegExp {
+    const source = pattern.split("").map(character => {
+        switch (character) {
+            case "*":
+                return ".*";
+            case "?":
+                return ".";
+            default:
+                return character.replace(/[\\^$.|+()[\]{}]/g, "\\$&");
+        }
+    }).join("");
+    return new RegExp(`^${source}$`);
+}
+
+/** Creates a random ID of a cache manager, which identifies it as the sender of invalidation messages. */
+function createOrigin(): string {
+    return Math.random().toString(36).slice(2) + Date.now().toString(36);
+}
+
+/**
+ * Rejects a promise that is not settled in time.
+ * @param promise The promise returned by a wrapped function.
+ * @param timeout How long to wait, in milliseconds.
+ * @param controller Aborts the call of the wrapped function when the time is up, if it accepts an AbortSignal.
+ * @returns A promise that settles like the original promise, or rejects with a "TimeoutError".
+ */
+function withTimeout(promise: Promise<unknown>, timeout: number, controller: AbortController | undefined): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+            const error = Object.assign(new Error(`The value was not loaded in ${timeout} ms.`), { name: "TimeoutError" });
+            if (controller) {
+                controller.abort(error);
+            }
+
+            reject(error);
+        }, timeout);
+        promise.then(
+            value => {
+                clearTimeout(timer);
+                resolve(value);
+            },
+            error => {
+                clearTimeout(timer);
+                reject(error);
+            });
+    });
+}
 
 /** Manages a cache system and policies. */
 export class CacheManager {
+    /**
+     * Finds the cache manager that wrapped a function, and the cache key of a call of it,
+     * without calling it or reading the cache. To locate a call of a decorated method, bind it to an instance.
+     * @param wrapped A function wrapped by @see wrap, or a decorated method. Other functions are never called.
+     * @param parameters The parameters of the call.
+     * @returns The manager and the key of the call, or undefined if the function is not wrapped.
+     */
+    // eslint-disable-next-line @typescript-eslint/ban-types
+    public static locate(wrapped: Function, ...parameters: unknown[]): IWrappedCall | undefined {
+        const wrappedFunction = findWrapped(wrapped);
+        return wrappedFunction && wrappedFunction.locate(undefined, parameters);
+    }
+
+    /** Gets the cache mode of the current scope, e.g. of a request, @see useModeScope. */
+    private static _modeScope: (() => CacheMode | undefined) | undefined;
+
+    /**
+     * Sets how all managers find the cache mode of the current scope, e.g. of a request.
+     * Managers use the mode of the scope, or their own mode, whichever caches less.
+     * In Node.js, @see runWithCacheMode of "managed-cache/node" sets it with AsyncLocalStorage.
+     * @param getMode A function that returns the mode of the current scope, or undefined if there is none.
+     */
+    public static useModeScope(getMode: (() => CacheMode | undefined) | undefined): void {
+        CacheManager._modeScope = getMode;
+    }
+
+    /** The ID of the manager, which identifies it as the sender of invalidation messages. @see IInvalidationTransport */
+    public readonly origin = createOrigin();
+
     private _policies: { [hash: string]: ICachePolicy } = {};
 
+    private _rules: ICompiledRule[] = [];
+
+    private _mode: CacheMode = "normal";
+
     private _contexts: { [context: string]: Set<string> } = {};
 
-    constructor(public storage: ICacheStorage) { }
+    /** The contexts of each item, so an item can be removed from all of them. */
+    private _memberships = new Map<string, string[]>();
+
+    /** Indexing contexts of items that were saved before the manager was created, if it is not finished yet. */
+    private _indexing: Promise<void> | undefined;
+
+    /** Values that are being loaded by wrapped functions, only tracked for functions that dedupe calls. */
+    private _loads = new Map<string, Promise<unknown>>();
+
+    /** Hashes of items that are being refreshed in the background. */
+    private _refreshes = new Set<string>();
+
+    /** Circuit breakers by the hashes of policy keys, or by policies for calls without policy keys. */
+    private _circuits = new Map<unknown, CircuitBreaker>();
+
+    /** Circuit breakers of functions that return promises, whose calls are rejected while the circuits are open. */
+    private _asyncCircuits = new WeakSet<CircuitBreaker>();
+
+    private _sweepTimer: ReturnType<typeof setInterval> | undefined;
+
+    private _listeners = new Map<CacheEventName, Set<(event: never) => void>>();
+
+    private _stats = new CacheStatsRecorder();
+
+    private _keyHasher: KeyHasher;
+
+    private _clock: IClock;
+
+    /** Items saved by @see saveMany, which are written to the storage at once. */
+    private _batch: [string, ICacheItem][] | undefined;
+
+    /** Stops receiving invalidation messages from peers. */
+    private _unsubscribe: (() => void) | undefined;
+
+    /**
+     * Creates a cache manager.
+     * @param storage The storage of cache items. With an asynchronous storage, only the asynchronous methods
+     * (e.g. @see getAsync) can be used, and wrapped functions always return promises.
+     * @param options Options to control the behavior of the cache manager.
+     */
+    constructor(public storage: ICacheStorage | IAsyncCacheStorage, private _options: ICacheManagerOptions = {}) {
+        this._keyHasher = _options.keyHasher || objectKeyHasher;
+        this._clock = _options.clock || systemClock;
+        if (_options.serializer && storage.useSerializer) {
+            storage.useSerializer(_options.serializer);
+        }
+
+        if (storage.addEvictionListener) {
+            storage.addEvictionListener((keyHash, cacheItem) => {
+                // The storage may be shared with managers of other namespaces
+                if (this.owns(keyHash)) {
+                    this.removeFromContext(keyHash);
+                    this.emit("evict", { cacheItem });
+                }
+            });
+        }
+
+        this.on("hit", ({ cacheItem }) => this.count("hits", cacheItem.policyKey));
+        this.on("miss", ({ policyKey }) => this.count("misses", policyKey));
+        this.on("set", ({ cacheItem }) => this.count("sets", cacheItem.policyKey));
+        this.on("remove", ({ cacheItem }) => this.count("removals", cacheItem.policyKey));
+        this.on("expire", ({ cacheItem }) => this.count("expirations", cacheItem.policyKey));
+        this.on("evict", ({ cacheItem }) => this.count("evictions", cacheItem.policyKey));
+        this.on("loadError", ({ policyKey }) => this.count("loadErrors", policyKey));
+
+        // Items may have been saved by a previous process, so their contexts need to be known
+        const indexing = chain(this.ownEntries(), entries => {
+            for (const [keyHash, cacheItem] of entries) {
+                if (!this._memberships.has(keyHash)) {
+                    this.addToContext(keyHash, cacheItem);
+                }
+            }
+        });
+        if (indexing instanceof Promise) {
+            this._indexing = indexing.catch(() => undefined).then(() => {
+                this._indexing = undefined;
+            });
+        }
+
+        if (_options.sweepInterval) {
+            this.startSweeping(_options.sweepInterval);
+        }
+
+        if (_options.transport) {
+            this._unsubscribe = _options.transport.subscribe(message => this.receive(message));
+        }
+
+        if (_options.policyRules) {
+            this.addPolicyRules(_options.policyRules);
+        }
+    }
+
+    /** The mode of the manager, @see setMode. A scope may still cache less, @see useModeScope. */
+    public get mode(): CacheMode {
+        return this._mode;
+    }
+
+    /**
+     * Subscribes to a cache event.
+     * @param name The name of the event.
+     * @param listener A function that is called when the event occurs.
+     */
+    public on<K extends CacheEventName>(name: K, listener: CacheEventListener<K>): void {
+        let listeners = this._listeners.get(name);
+        if (!listeners) {
+            this._listeners.set(name, listeners = new Set());
+        }
+
+        listeners.add(listener);
+    }
+
+    /**
+     * Unsubscribes from a cache event.
+     * @param name The name of the event.
+     * @param listener A function that was subscribed to the event.
+     */
+    public off<K extends CacheEventName>(name: K, listener: CacheEventListener<K>): void {
+        const listeners = this._listeners.get(name);
+        if (listeners) {
+            listeners.delete(listener);
+        }
+    }
+
+    /**
+     * Gets a snapshot of cache statistics, in total and per policy key.
+     */
+    public getStats(): ICacheStats {
+        return this._stats.snapshot();
+    }
+
+    /**
+     * Resets all counters of cache statistics.
+     */
+    public resetStats(): void {
+        this._stats.reset();
+    }
 
     /**
      * Sets the cache policy for the specified policy key.
@@ -23,25 +278,85 @@ export class CacheManager {
     }
 
     /**
-     * Gets an unexpired item from the cache.
-     * @param key A unique key to identify a cache item.
-     * @returns A cache item if it exists and has not expired; otherwise, undefined.
+     * Adds rules to find policies of calls by their classes, methods, contexts or policy keys, e.g. to override
+     * policies of a library without importing its classes. A policy is found in this order:
+     * 1. The policy set for the exact policy key, @see setCachePolicy.
+     * 2. The policy of the first rule that matches the call, in the order the rules were added.
+     * 3. The policy of the cache options, @see ICacheOptions.policy.
+     * @param rules The rules to add after existing rules.
      */
-    public getCacheItem(key: unknown): ICacheItem | undefined {
-        const keyHash = this.getHash(key);
-        const cacheItem = this.storage.get(keyHash);
-        if (!cacheItem) {
-            return undefined;
+    public addPolicyRules(rules: ICachePolicyRule[]): void {
+        for (const rule of rules) {
+            const compiled: ICompiledRule = { policy: rule.policy };
+            for (const condition of ["class", "method", "context", "policyKey"] as const) {
+                const pattern = rule[condition];
+                if (pattern !== undefined) {
+                    compiled[condition] = globToRegExp(pattern);
+                }
+            }
+
+            this._rules.push(compiled);
         }
+    }
 
-        const now = new Date();
-        if (this.expired(cacheItem, now)) {
-            this.storage.remove(keyHash);
-            return undefined;
+    /**
+     * Adds the rules of a policy configuration, @see addPolicyRules.
+     * @param config The configuration, or its JSON.
+     */
+    public loadPolicyConfig(config: ICachePolicyConfig | string): void {
+        const { rules } = typeof config === "string" ? JSON.parse(config) as ICachePolicyConfig : config;
+        this.addPolicyRules(rules);
+    }
+
+    /**
+     * Removes all policy rules. Policies set for policy keys are kept.
+     */
+    public clearPolicyRules(): void {
+        this._rules = [];
+    }
+
+    /**
+     * Sets the mode of the manager, e.g. to debug without caches. The "disabled" mode clears the cache.
+     * @param mode The cache mode.
+     */
+    public setMode(mode: CacheMode): void {
+        this._mode = mode;
+        if (mode === "disabled") {
+            // Only this manager is disabled, so peers keep their items
+            this.sync(this.clearAll(false));
         }
+    }
 
-        cacheItem.accessed = now;
-        return cacheItem;
+    /**
+     * Sets the mode of the manager. Works with both synchronous and asynchronous storages.
+     * @param mode The cache mode.
+     */
+    public async setModeAsync(mode: CacheMode): Promise<void> {
+        this._mode = mode;
+        if (mode === "disabled") {
+            await this.clearAll(false);
+        }
+    }
+
+    /**
+     * Gets an unexpired item from the cache.
+     * @param key A unique key to identify a cache item.
+     * @param allowStale Whether to return an expired item while it can still be refreshed,
+     * i.e. within its @see ICacheItem.staleWhileRevalidate.
+     * @returns A cache item if it exists and has not expired; otherwise, undefined.
+     */
+    public getCacheItem(key: unknown, allowStale = false): ICacheItem | undefined {
+        return this.sync(this.lookup(key, allowStale));
+    }
+
+    /**
+     * Gets an unexpired item from the cache. Works with both synchronous and asynchronous storages.
+     * @param key A unique key to identify a cache item.
+     * @param allowStale Whether to return an expired item while it can still be refreshed.
+     * @returns A promise that resolves to a cache item if it exists and has not expired; otherwise, undefined.
+     */
+    public async getCacheItemAsync(key: unknown, allowStale = false): Promise<ICacheItem | undefined> {
+        return this.lookup(key, allowStale);
     }
 
     /**
@@ -49,17 +364,15 @@ export class CacheManager {
      * @param cacheItem An item to be saved to the cache.
      */
     public setCacheItem(cacheItem: ICacheItem): void {
-        const keyHash = this.getHash(cacheItem.key);
-        this.storage.set(keyHash, cacheItem);
-        const { context } = cacheItem;
-        if (typeof context === "string") {
-            let hashes = this._contexts[context];
-            if (!hashes) {
-                this._contexts[context] = hashes = new Set();
-            }
+        this.sync(this.store(cacheItem));
+    }
 
-            hashes.add(keyHash);
-        }
+    /**
+     * Saves an item to the cache. Works with both synchronous and asynchronous storages.
+     * @param cacheItem An item to be saved to the cache.
+     */
+    public async setCacheItemAsync(cacheItem: ICacheItem): Promise<void> {
+        return this.store(cacheItem);
     }
 
     /**
@@ -68,19 +381,39 @@ export class CacheManager {
      * @returns True if the cache contains an item with the specified key; otherwise, false.
      */
     public has(key: unknown): boolean {
-        const keyHash = this.getHash(key);
-        const cacheItem = this.storage.get(keyHash);
-        return !!cacheItem && !this.expired(cacheItem);
+        return this.sync(this.contains(key));
+    }
+
+    /**
+     * Determines whether the cache contains an item with the specified key.
+     * Works with both synchronous and asynchronous storages.
+     * @param key A unique key to identify a cache item.
+     * @returns A promise that resolves to true if the cache contains an item with the specified key; otherwise, false.
+     */
+    public async hasAsync(key: unknown): Promise<boolean> {
+        return this.contains(key);
     }
 
     /**
      * Gets a cached value.
+     * @template T The type of the cached value, which is not checked.
      * @param key A unique key to identify a cache item.
      * @returns A cached value.
      */
-    public get(key: unknown): unknown {
+    public get<T = unknown>(key: unknown): T | undefined {
         const cacheItem = this.getCacheItem(key);
-        return cacheItem ? cacheItem.value : undefined;
+        return cacheItem ? this.valueOf(cacheItem) as T : undefined;
+    }
+
+    /**
+     * Gets a cached value. Works with both synchronous and asynchronous storages.
+     * @template T The type of the cached value, which is not checked.
+     * @param key A unique key to identify a cache item.
+     * @returns A promise that resolves to a cached value.
+     */
+    public async getAsync<T = unknown>(key: unknown): Promise<T | undefined> {
+        const cacheItem = await this.lookup(key);
+        return cacheItem ? this.valueOf(cacheItem) as T : undefined;
     }
 
     /**
@@ -92,56 +425,25 @@ export class CacheManager {
      * @param options Options that controls the caching behavior.
      */
     public set(key: unknown, value: unknown, thisParameter?: unknown, parameters?: unknown[], options?: ICacheOptions): void {
-        const now = new Date();
-        const cacheItem: ICacheItem = {
-            key,
-            value,
-            created: now,
-            accessed: now
-        };
-
-        let policy: ICachePolicy | undefined;
-        if (options) {
-            const { context, policyKey } = options;
-            if (context) {
-                cacheItem.context = typeof context === "string"
-                    ? context
-                    : (parameters ? context.apply(thisParameter, parameters) : context.apply(thisParameter));
-            }
-
-            // First, try to use the policy key to determine what policy to use
-            if (policyKey) {
-                cacheItem.policyKey = typeof policyKey === "function"
-                    ? (parameters ? policyKey(...parameters) : policyKey())
-                    : policyKey;
-                policy = this._policies[this.getHash(policyKey)];
-            }
-
-            // If no policy is found using the policy key, then use the policy directly specified in the option
-            if (!policy) {
-                policy = options.policy;
-            }
-
-            if (policy) {
-                const maxAge = policy.maxAge;
-                if (maxAge === 0) {
-                    return;
-                }
-
-                cacheItem.maxAge = typeof maxAge === "number"
-                    ? maxAge
-                    : (parameters ? maxAge(...parameters) : maxAge());
-                cacheItem.sliding = policy.sliding;
-            }
-        }
+        this.sync(this.save(key, value, thisParameter, parameters, options));
+    }
 
-        const keepRejectedPromise = policy && policy.keepRejectedPromise;
-        if (!keepRejectedPromise && value instanceof Promise) {
-            // When the original method fails, delete rejected promise so the original method can be invoked again
-            value.catch(() => this.remove(key));
-        }
+    /**
+     * Saves a value to the cache. Works with both synchronous and asynchronous storages.
+     * @param key A unique key to identify a cache item.
+     * @param value A value to be cached.
+     * @param thisParameter The 'this' parameter used to get the value (e.g. in a function call).
+     * @param parameters Parameters that were used to get the value that will be cached (e.g. in a function call).
+     * @param options Options that controls the caching behavior.
+     */
+    public async setAsync(
+        key: unknown,
+        value: unknown,
+        thisParameter?: unknown,
+        parameters?: unknown[],
+        options?: ICacheOptions): Promise<void> {
 
-        this.setCacheItem(cacheItem);
+        return this.save(key, value, thisParameter, parameters, options);
     }
 
     /**
@@ -150,94 +452,1768 @@ export class CacheManager {
      * @returns True if an item with the specified key existed; otherwise, false.
      */
     public remove(key: unknown): boolean {
-        const keyHash = this.getHash(key);
-        const cacheItem = this.storage.remove(keyHash);
-        if (cacheItem) {
-            const { context } = cacheItem;
-            if (context) {
-                this._contexts[context].delete(keyHash);
-            }
-        }
+        return this.sync(this.delete(key));
+    }
 
-        return !!cacheItem;
+    /**
+     * Removes an item from the cache. Works with both synchronous and asynchronous storages.
+     * @param key A unique key to identify a cache item.
+     * @returns A promise that resolves to true if an item with the specified key existed; otherwise, false.
+     */
+    public async removeAsync(key: unknown): Promise<boolean> {
+        return this.delete(key);
     }
 
     /**
-     * Removes all items with the specified context.
-     * @param context The context to remove.
+     * Gets multiple cached values at once.
+     * @template T The type of the cached values, which is not checked.
+     * @param keys Unique keys to identify cache items.
+     * @returns Cached values in the same order as the keys, with undefined for missing values.
      */
-    public removeContext(context: string): void {
-        const hashes = this._contexts[context];
-        if (hashes) {
-            for (const keyHash of hashes) {
-                this.storage.remove(keyHash);
-            }
+    public getMany<T = unknown>(keys: unknown[]): (T | undefined)[] {
+        return this.sync(this.lookupMany(keys)).map(cacheItem => cacheItem ? this.valueOf(cacheItem) as T : undefined);
+    }
 
-            delete this._contexts[context];
-        }
+    /**
+     * Gets multiple cached values at once. Works with both synchronous and asynchronous storages.
+     * @template T The type of the cached values, which is not checked.
+     * @param keys Unique keys to identify cache items.
+     * @returns A promise that resolves to cached values in the same order as the keys.
+     */
+    public async getManyAsync<T = unknown>(keys: unknown[]): Promise<(T | undefined)[]> {
+        const cacheItems = await this.lookupMany(keys);
+        return cacheItems.map(cacheItem => cacheItem ? this.valueOf(cacheItem) as T : undefined);
     }
 
     /**
-     * Clears the cache, removes all items.
+     * Saves multiple values to the cache at once, e.g. to warm the cache up when an application starts.
+     * @param entries Pairs of keys and values.
+     * @param options Options that control the caching behavior of all values.
      */
-    public clear(): void {
-        this.storage.clear();
-        this._contexts = {};
+    public setMany(entries: [unknown, unknown][], options?: ICacheOptions): void {
+        this.sync(this.saveMany(entries, options));
     }
 
     /**
-     * Wraps a target function so its results will be cached.
-     * @param target A target function to be wrapped.
-     * @param cacheOptions Options to control caching behavior.
-     * @param getKey Optional function to get cache key from function parameters.
+     * Saves multiple values to the cache at once. Works with both synchronous and asynchronous storages.
+     * @param entries Pairs of keys and values.
+     * @param options Options that control the caching behavior of all values.
+     */
+    public async setManyAsync(entries: [unknown, unknown][], options?: ICacheOptions): Promise<void> {
+        return this.saveMany(entries, options);
+    }
+
+    /**
+     * Removes multiple items from the cache at once.
+     * @param keys Unique keys to identify cache items.
+     * @returns The number of removed items.
+     */
+    public removeMany(keys: unknown[]): number {
+        return this.sync(this.deleteMany(keys));
+    }
+
+    /**
+     * Removes multiple items from the cache at once. Works with both synchronous and asynchronous storages.
+     * @param keys Unique keys to identify cache items.
+     * @returns A promise that resolves to the number of removed items.
+     */
+    public async removeManyAsync(keys: unknown[]): Promise<number> {
+        return this.deleteMany(keys);
+    }
+
+    /**
+     * Calls a wrapped function without reading the cache, and caches its result, e.g. to warm up hot keys.
+     * The cache key is calculated by the wrapped function, so callers do not need to know how keys are made.
+     * To prime a decorated method, bind it to an instance, e.g. `prime(service.getUser.bind(service), 42)`.
+     * @param wrapped A function wrapped by @see wrap, or a decorated method. Other functions throw an error.
+     * @param parameters The parameters to call the wrapped function with.
+     * @returns The result of the wrapped function.
      */
     // eslint-disable-next-line @typescript-eslint/ban-types
-    public wrap<T extends Function>(target: T, cacheOptions?: ICacheOptions, getKey?: (parameters: unknown[]) => unknown): T {
-        // Save "this". In the wrapped function, "this" will be from the caller's context.
-        // eslint-disable-next-line @typescript-eslint/no-this-alias
-        const self = this;
+    public prime(wrapped: Function, ...parameters: unknown[]): unknown {
+        return getWrapped(wrapped).prime(undefined, parameters);
+    }
 
-        // tslint:disable-next-line: only-arrow-functions
-        const wrapped = function (this: unknown, ...parameters: unknown[]): unknown {
-            const key = getKey ? getKey(parameters) : [target.name, parameters];
-            const cacheItem = self.getCacheItem(key);
-            if (cacheItem) {
-                return cacheItem.value;
-            }
+    /**
+     * Gets the cache key of a call of a wrapped function, without calling it or reading the cache,
+     * e.g. to remove its cached result. To get a key of a decorated method, bind it to an instance.
+     * @param wrapped A function wrapped by @see wrap, or a decorated method. Other functions throw an error.
+     * @param parameters The parameters of the call.
+     * @returns The key that the result of the call is cached with.
+     */
+    // eslint-disable-next-line @typescript-eslint/ban-types
+    public keyOf(wrapped: Function, ...parameters: unknown[]): unknown {
+        return getWrapped(wrapped).locate(undefined, parameters).key;
+    }
 
-            // Call the wrapped function. "this" is from the caller's context (e.g. an class instance).
-            const value = target.apply(this, parameters);
+    /**
+     * Creates a region of the cache, whose keys and values have specific types.
+     * @template K The type of keys in the region.
+     * @template V The type of values in the region.
+     * @param options The name of the region, and options to control caching behavior of its values.
+     */
+    public createRegion<K, V>(options: ICacheRegionOptions<K>): CacheRegion<K, V> {
+        return new CacheRegion<K, V>(this, options);
+    }
 
-            self.set(key, value, this, parameters, cacheOptions);
-            return value;
-        };
+    /**
+     * Gets the keys of all items that have not expired, e.g. to debug the cache.
+     * @returns The keys in the order of the storage.
+     */
+    public keys(): unknown[] {
+        return this.sync(this.liveItems()).map(cacheItem => cacheItem.key);
+    }
 
-        return wrapped as unknown as T;
+    /**
+     * Gets the keys of all items that have not expired. Works with both synchronous and asynchronous storages.
+     * @returns A promise that resolves to the keys in the order of the storage.
+     */
+    public async keysAsync(): Promise<unknown[]> {
+        return (await this.liveItems()).map(cacheItem => cacheItem.key);
     }
 
     /**
-     * Calculates the hash of a key.
-     * @param key A key to calculate hash for.
+     * Gets the keys and values of all items that have not expired, without counting them as hits.
+     * @returns Pairs of keys and values.
      */
-    private getHash(key: unknown): string {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        return typeof key === "string" ? key : hash(key as any);
+    public entries(): [unknown, unknown][] {
+        return this.sync(this.liveItems()).map(cacheItem => [cacheItem.key, cacheItem.value]);
     }
 
     /**
-     * Determines whether a cache item has expired.
-     * @param cacheItem The cache item to check.
-     * @param time The time used to calculate the cache item's age.
-     * @returns True if the cache item has expired; otherwise, false.
+     * Gets the keys and values of all items that have not expired. Works with both synchronous and asynchronous storages.
+     * @returns A promise that resolves to pairs of keys and values.
      */
-    private expired(cacheItem: ICacheItem, time?: Date): boolean {
-        if (!cacheItem.maxAge) {
-            return false;
-        }
+    public async entriesAsync(): Promise<[unknown, unknown][]> {
+        return (await this.liveItems()).map(cacheItem => [cacheItem.key, cacheItem.value]);
+    }
+
+    /**
+     * The number of items that have not expired.
+     */
+    public get size(): number {
+        return this.sync(this.liveItems()).length;
+    }
+
+    /**
+     * Gets the number of items that have not expired. Works with both synchronous and asynchronous storages.
+     * @returns A promise that resolves to the number of items.
+     */
+    public async sizeAsync(): Promise<number> {
+        return (await this.liveItems()).length;
+    }
+
+    /**
+     * Gets all contexts that have items. Contexts of items saved by previous processes are only known once they are
+     * indexed, which may not be finished yet with an asynchronous storage, @see contextsAsync.
+     */
+    public contexts(): string[] {
+        return Object.keys(this._contexts);
+    }
+
+    /**
+     * Gets all contexts that have items, once contexts of existing items are indexed.
+     * @returns A promise that resolves to the contexts.
+     */
+    public async contextsAsync(): Promise<string[]> {
+        return this.whenIndexed(() => this.contexts());
+    }
 
+    /**
+     * Describes an item for debugging, e.g. its age and time to live, without counting it as a hit or accessing it.
+     * @param key A unique key to identify a cache item.
+     * @returns The description of the item, including when it has expired, or undefined if it does not exist.
+     */
+    public inspect(key: unknown): ICacheItemInfo | undefined {
+        return this.sync(this.describe(key));
+    }
+
+    /**
+     * Describes an item for debugging. Works with both synchronous and asynchronous storages.
+     * @param key A unique key to identify a cache item.
+     * @returns A promise that resolves to the description of the item, or undefined if it does not exist.
+     */
+    public async inspectAsync(key: unknown): Promise<ICacheItemInfo | undefined> {
+        return this.describe(key);
+    }
+
+    /**
+     * Exports all items that have not expired as text, e.g. to carry a warm cache across deployments.
+     * Items are serialized with their ages and contexts by the serializer of the manager (@see ICacheManagerOptions.serializer),
+     * or by a @see JsonCacheSerializer. Promises are skipped. Items that cannot be serialized (e.g. functions) are
+     * counted by @see ICacheSnapshot.skipped, and reported by "snapshotSkip" events.
+     * @returns The snapshot, @see importSnapshot.
+     */
+    public exportSnapshot(): string {
+        return this.sync(this.snapshot());
+    }
+
+    /**
+     * Exports all items that have not expired as text. Works with both synchronous and asynchronous storages.
+     * @returns A promise that resolves to the snapshot.
+     */
+    public async exportSnapshotAsync(): Promise<string> {
+        return this.snapshot();
+    }
+
+    /**
+     * Imports items exported by @see exportSnapshot, e.g. by a previous deployment, replacing items with the same keys.
+     * Items that have expired since they were exported are dropped. The snapshot must be exported with the same
+     * serializer and key hasher, but it can be imported by a manager of another namespace.
+     * Records that cannot be deserialized, and items that are not saved because of the mode of the manager,
+     * are reported by "snapshotSkip" events.
+     * @param snapshot The snapshot.
+     * @returns The number of imported items.
+     */
+    public importSnapshot(snapshot: string): number {
+        return this.sync(this.restore(snapshot));
+    }
+
+    /**
+     * Imports items exported by @see exportSnapshot. Works with both synchronous and asynchronous storages.
+     * @param snapshot The snapshot.
+     * @returns A promise that resolves to the number of imported items.
+     */
+    public async importSnapshotAsync(snapshot: string): Promise<number> {
+        return this.restore(snapshot);
+    }
+
+    /**
+     * Removes all items that match a condition.
+     * @param predicate A function that determines whether an item should be removed.
+     * @returns The number of removed items.
+     */
+    public removeWhere(predicate: (cacheItem: ICacheItem) => boolean): number {
+        return this.sync(this.deleteWhere(predicate));
+    }
+
+    /**
+     * Removes all items that match a condition. Works with both synchronous and asynchronous storages.
+     * @param predicate A function that determines whether an item should be removed.
+     * @returns A promise that resolves to the number of removed items.
+     */
+    public async removeWhereAsync(predicate: (cacheItem: ICacheItem) => boolean): Promise<number> {
+        return this.deleteWhere(predicate);
+    }
+
+    /**
+     * Removes all items with the specified context.
+     * @param context The context to remove.
+     */
+    public removeContext(context: string): void {
+        this.sync(this.invalidateContexts([context]));
+    }
+
+    /**
+     * Removes all items with the specified context. Works with both synchronous and asynchronous storages.
+     * @param context The context to remove.
+     */
+    public async removeContextAsync(context: string): Promise<void> {
+        return this.invalidateContexts([context]);
+    }
+
+    /**
+     * Removes all items with any of the specified contexts.
+     * @param contexts The contexts to remove.
+     */
+    public removeContexts(contexts: string[]): void {
+        this.sync(this.invalidateContexts(contexts));
+    }
+
+    /**
+     * Removes all items with any of the specified contexts. Works with both synchronous and asynchronous storages.
+     * @param contexts The contexts to remove.
+     */
+    public async removeContextsAsync(contexts: string[]): Promise<void> {
+        return this.invalidateContexts(contexts);
+    }
+
+    /**
+     * Removes all items with contexts that start with the specified prefix, e.g. "school:7/" for hierarchical contexts.
+     * @param prefix The prefix of contexts to remove.
+     */
+    public removeContextPrefix(prefix: string): void {
+        this.sync(this.invalidateContextPrefix(prefix));
+    }
+
+    /**
+     * Removes all items with contexts that start with the specified prefix.
+     * Works with both synchronous and asynchronous storages.
+     * @param prefix The prefix of contexts to remove.
+     */
+    public async removeContextPrefixAsync(prefix: string): Promise<void> {
+        return this.invalidateContextPrefix(prefix);
+    }
+
+    /**
+     * Clears the cache, removes all items. Items of other namespaces in the same storage are kept.
+     */
+    public clear(): void {
+        this.sync(this.clearAll());
+    }
+
+    /**
+     * Clears the cache, removes all items. Items of other namespaces in the same storage are kept.
+     * Works with both synchronous and asynchronous storages.
+     */
+    public async clearAsync(): Promise<void> {
+        return this.clearAll();
+    }
+
+    /**
+     * Removes items by keys, by a condition and by contexts at once, e.g. for @see cacheEvict.
+     * With a synchronous storage, the items are removed before it returns, so callers do not need to wait.
+     * @param invalidation The items to remove.
+     * @returns Nothing with a synchronous storage; otherwise, a promise that resolves when the items are removed.
+     */
+    public invalidate(invalidation: ICacheInvalidation): void | Promise<void> {
+        const { all: clear, keys, predicate, contexts } = invalidation;
+        const removals: MaybePromise<unknown>[] = [];
+        if (clear) {
+            removals.push(this.clearAll());
+        } else {
+            if (keys) {
+                removals.push(this.deleteMany(keys));
+            }
+
+            if (predicate) {
+                removals.push(this.deleteWhere(predicate));
+            }
+        }
+
+        return chain(all(removals), () => contexts && this.invalidateContexts(contexts));
+    }
+
+    /**
+     * Removes all expired items from the storage.
+     * @returns The number of removed items.
+     */
+    public sweep(): number {
+        return this.sync(this.purge());
+    }
+
+    /**
+     * Removes all expired items from the storage. Works with both synchronous and asynchronous storages.
+     * @returns A promise that resolves to the number of removed items.
+     */
+    public async sweepAsync(): Promise<number> {
+        return this.purge();
+    }
+
+    /**
+     * Starts to periodically remove expired items from the storage.
+     * The timer does not keep a Node.js process alive.
+     * @param interval The interval between sweeps, in milliseconds.
+     */
+    public startSweeping(interval: number): void {
+        this.stopSweeping();
+        const timer = setInterval(() => {
+            // A failed sweep will be retried in the next interval
+            Promise.resolve().then(() => this.purge()).catch(() => undefined);
+        }, interval);
+
+        // Only available in Node.js
+        if (typeof timer === "object" && typeof timer.unref === "function") {
+            timer.unref();
+        }
+
+        this._sweepTimer = timer;
+    }
+
+    /**
+     * Stops periodically removing expired items.
+     */
+    public stopSweeping(): void {
+        if (this._sweepTimer !== undefined) {
+            clearInterval(this._sweepTimer);
+            this._sweepTimer = undefined;
+        }
+    }
+
+    /**
+     * Stops the background work of the manager, i.e. sweeping, and receiving invalidation messages from peers.
+     * The manager can still be used, but peers no longer remove its items.
+     */
+    public close(): void {
+        this.stopSweeping();
+        if (this._unsubscribe) {
+            this._unsubscribe();
+            this._unsubscribe = undefined;
+        }
+    }
+
+    /**
+     * Wraps a target function so its results will be cached.
+     * If the storage is asynchronous, the wrapped function waits for the storage and always returns a promise.
+     * If the cache policy allows, expired values are returned while they are refreshed in the background.
+     * Callbacks of the options take the parameters of the target function with their types.
+     * @param target A target function to be wrapped.
+     * @param cacheOptions Options to control caching behavior.
+     * @param getKey Optional function to get cache key from function parameters, and the 'this' parameter.
+     * Only parameters that are part of the cache key are passed first, @see ICacheOptions.key.
+     * All parameters are passed last.
+     */
+    public wrap<F extends (...parameters: never[]) => unknown>(
+        target: F,
+        cacheOptions?: ICacheOptions<Parameters<F>>,
+        getKey?: (keyParameters: unknown[], thisParameter: ThisParameterType<F>, parameters: Parameters<F>) => unknown): F;
+
+    /**
+     * Wraps a target function so its results will be cached.
+     * @param target A target function to be wrapped.
+     * @param cacheOptions Options to control caching behavior.
+     * @param getKey Optional function to get cache key from function parameters, and the 'this' parameter.
+     */
+    // eslint-disable-next-line @typescript-eslint/ban-types
+    public wrap<T extends Function>(
+        target: T,
+        cacheOptions?: ICacheOptions,
+        getKey?: (keyParameters: unknown[], thisParameter: unknown, parameters: unknown[]) => unknown): T;
+
+    // eslint-disable-next-line @typescript-eslint/ban-types
+    public wrap<T extends Function>(
+        target: T,
+        cacheOptions?: ICacheOptions,
+        getKey?: (keyParameters: unknown[], thisParameter: unknown, parameters: unknown[]) => unknown): T {
+
+        // Save "this". In the wrapped function, "this" will be from the caller's context.
+        // eslint-disable-next-line @typescript-eslint/no-this-alias
+        const self = this;
+
+        const getCallKey = (thisParameter: unknown, parameters: unknown[]): unknown => {
+            const keyParameters = self.getKeyParameters(cacheOptions, thisParameter, parameters);
+            return getKey ? getKey(keyParameters, thisParameter, parameters) : [target.name, keyParameters];
+        };
+
+        // Only a call made by prime is primed, not calls of other wrapped functions made by the target
+        const call = function (this: unknown, parameters: unknown[], primed: boolean): unknown {
+            const key = getCallKey(this, parameters);
+
+            const keyHash = cacheOptions && cacheOptions.dedupe ? self.getHash(key) : undefined;
+            if (keyHash !== undefined && !primed) {
+                const load = self._loads.get(keyHash);
+                if (load) {
+                    return load;
+                }
+            }
+
+            const policyKey = self.getPolicyKey(cacheOptions, parameters);
+            const policy = self.getPolicy(cacheOptions, policyKey, () => self.getContext(cacheOptions, this, parameters));
+            const result = chain(primed ? undefined : self.lookup(key, true, policyKey), cacheItem => {
+                if (cacheItem) {
+                    if (self.needsRefresh(cacheItem)) {
+                        self.refresh(target, cacheItem, cacheOptions, this, parameters);
+                    }
+
+                    return self.valueOf(cacheItem);
+                }
+
+                return chain(self.findFallback(key, policy), fallbackItem => {
+                    // The last value is saved again if it was replaced by a failed load
+                    const recover = (error: unknown, replaced: boolean): unknown => {
+                        if (!fallbackItem) {
+                            throw error;
+                        }
+
+                        return chain(replaced ? self.store(fallbackItem) : undefined, () => {
+                            self.emit("hit", { key, cacheItem: fallbackItem, stale: true });
+                            return fallbackItem.value;
+                        });
+                    };
+
+                    const circuit = self.getCircuit(policy, policyKey);
+                    if (circuit && !circuit.tryCall(self._clock.now())) {
+                        const error = Object.assign(
+                            new Error("The circuit breaker of the policy is open."),
+                            { name: "CircuitOpenError" });
+
+                        // Functions that return promises are expected to reject instead of throwing
+                        return fallbackItem || !self._asyncCircuits.has(circuit) ? recover(error, false) : Promise.reject(error);
+                    }
+
+                    // Call the wrapped function. "this" is from the caller's context (e.g. an class instance).
+                    let value: unknown;
+                    try {
+                        value = self.load(target, this, parameters, policy, circuit);
+                    } catch (error) {
+                        self.emit("loadError", { key, policyKey, error });
+                        return chain(self.saveError(key, error, this, parameters, cacheOptions), () => recover(error, true));
+                    }
+
+                    if (!(value instanceof Promise)) {
+                        return chain(self.save(key, value, this, parameters, cacheOptions), () => value);
+                    }
+
+                    const promise = value;
+                    promise.catch(error => self.emit("loadError", { key, policyKey, error }));
+                    return chain(
+                        self.save(key, promise, this, parameters, cacheOptions),
+                        () => fallbackItem ? promise.catch(error => recover(error, true)) : promise);
+                });
+            });
+
+            if (keyHash !== undefined && result instanceof Promise) {
+                // Other callers wait for the same result until it settles, whether it succeeds or fails
+                self._loads.set(keyHash, result);
+                const settle = (): void => {
+                    if (self._loads.get(keyHash) === result) {
+                        self._loads.delete(keyHash);
+                    }
+                };
+                result.then(settle, settle);
+            }
+
+            return result;
+        };
+
+        // tslint:disable-next-line: only-arrow-functions
+        const wrapped = function (this: unknown, ...parameters: unknown[]): unknown {
+            return call.call(this, parameters, false);
+        };
+        registerWrapped(wrapped, {
+            locate: (thisParameter, parameters) => ({ manager: self, key: getCallKey(thisParameter, parameters) }),
+            prime: (thisParameter, parameters) => call.call(thisParameter, parameters, true)
+        });
+        return wrapped as unknown as T;
+    }
+
+    /**
+     * Gets an unexpired item from the storage, and removes it if it can no longer be used.
+     * @param key A unique key to identify a cache item.
+     * @param allowStale Whether to return an expired item that can still be returned while it is refreshed.
+     * @param policyKey The policy key of the item, used to report a miss.
+     */
+    private lookup(key: unknown, allowStale = false, policyKey?: unknown): MaybePromise<ICacheItem | undefined> {
+        if (!this.readable()) {
+            return undefined;
+        }
+
+        const keyHash = this.getHash(key);
+        return chain(this.storage.get(keyHash), cacheItem => this.access(key, keyHash, cacheItem, allowStale, policyKey));
+    }
+
+    /**
+     * Gets unexpired items from the storage, and removes those that can no longer be used.
+     * Storages that implement bulk reads get all items at once.
+     * @param keys Unique keys to identify cache items.
+     * @returns Cache items in the same order as the keys, with undefined for missing items.
+     */
+    private lookupMany(keys: unknown[]): MaybePromise<(ICacheItem | undefined)[]> {
+        if (!this.storage.getMany || !this.readable()) {
+            return all(keys.map(key => this.lookup(key)));
+        }
+
+        const keyHashes = keys.map(key => this.getHash(key));
+        return chain(
+            this.storage.getMany(keyHashes),
+            cacheItems => all(cacheItems.map((cacheItem, i) => this.access(keys[i], keyHashes[i] as string, cacheItem))));
+    }
+
+    /**
+     * Checks an item that was read from the storage, and removes it if it can no longer be used.
+     * @param key A unique key to identify the item.
+     * @param keyHash The hash of the key.
+     * @param cacheItem The item read from the storage, if any.
+     * @param allowStale Whether to return an expired item that can still be returned while it is refreshed.
+     * @param policyKey The policy key of the item, used to report a miss.
+     * @returns The item if it can be used; otherwise, undefined.
+     */
+    private access(
+        key: unknown,
+        keyHash: string,
+        cacheItem: ICacheItem | undefined,
+        allowStale = false,
+        policyKey?: unknown): MaybePromise<ICacheItem | undefined> {
+
+        if (!cacheItem) {
+            this.emit("miss", { key, policyKey });
+            return undefined;
+        }
+
+        const now = this._clock.now();
+        if (this.dead(cacheItem, now)) {
+            this.emit("miss", { key, policyKey });
+            return chain(this.deleteHash(keyHash, true), () => undefined);
+        }
+
+        if (this.expired(cacheItem, now)) {
+            // A stale item is kept until it is refreshed, its access time is not updated
+            if (allowStale && !this.outdated(cacheItem, cacheItem.staleWhileRevalidate || 0, now)) {
+                this.emit("hit", { key, cacheItem, stale: true });
+                return cacheItem;
+            }
+
+            this.emit("miss", { key, policyKey });
+            return undefined;
+        }
+
+        cacheItem.accessed = now;
+        this.emit("hit", { key, cacheItem, stale: false });
+        if (cacheItem.sliding && this.storage.touch) {
+            return chain(this.storage.touch(keyHash, cacheItem), () => cacheItem);
+        }
+
+        return cacheItem;
+    }
+
+    /**
+     * Determines whether the storage contains an unexpired item.
+     * @param key A unique key to identify a cache item.
+     */
+    private contains(key: unknown): MaybePromise<boolean> {
+        if (!this.readable()) {
+            return false;
+        }
+
+        return chain(this.peek(key), cacheItem => !!cacheItem && !this.expired(cacheItem));
+    }
+
+    /**
+     * Gets an item from the storage without using it, so checking an item does not keep it from being evicted.
+     * @param key A unique key to identify a cache item.
+     */
+    private peek(key: unknown): MaybePromise<ICacheItem | undefined> {
+        const keyHash = this.getHash(key);
+        return this.storage.peek ? this.storage.peek(keyHash) : this.storage.get(keyHash);
+    }
+
+    /**
+     * Saves an item to the storage, and adds it to its contexts.
+     * If the item replaces an existing item, the existing item is removed from its contexts first.
+     * @param cacheItem An item to be saved to the storage.
+     */
+    private store(cacheItem: ICacheItem): MaybePromise<void> {
+        return this.storeHash(this.getHash(cacheItem.key), cacheItem);
+    }
+
+    /**
+     * Saves an item to the storage by its hash, and adds it to its contexts.
+     * @param keyHash The hash of the item.
+     * @param cacheItem An item to be saved to the storage.
+     */
+    private storeHash(keyHash: string, cacheItem: ICacheItem): MaybePromise<void> {
+        if (!this.writable()) {
+            return;
+        }
+
+        this.removeFromContext(keyHash);
+        this.addToContext(keyHash, cacheItem);
+        if (this._batch) {
+            this._batch.push([keyHash, cacheItem]);
+            return;
+        }
+
+        return chain(this.storage.set(keyHash, cacheItem), () => this.emit("set", { cacheItem }));
+    }
+
+    /**
+     * Creates cache items for values, and saves them to the storage.
+     * Storages that implement bulk writes save all items at once, except promises which are saved one by one.
+     * @param entries Pairs of keys and values.
+     * @param options Options that control the caching behavior.
+     */
+    private saveMany(entries: [unknown, unknown][], options: ICacheOptions | undefined): MaybePromise<void> {
+        const batch: [string, ICacheItem][] = [];
+        const saves: MaybePromise<void>[] = [];
+        for (const [key, value] of entries) {
+            if (!this.storage.setMany || value instanceof Promise) {
+                saves.push(this.save(key, value, undefined, undefined, options));
+                continue;
+            }
+
+            // Other values are stored right away by @see save, so they can be collected into the batch
+            this._batch = batch;
+            try {
+                this.save(key, value, undefined, undefined, options);
+            } finally {
+                this._batch = undefined;
+            }
+        }
+
+        if (this.storage.setMany && batch.length > 0) {
+            saves.push(chain(this.storage.setMany(batch), () => {
+                for (const [, cacheItem] of batch) {
+                    this.emit("set", { cacheItem });
+                }
+            }));
+        }
+
+        return chain(all(saves), () => undefined);
+    }
+
+    /**
+     * Creates a cache item for a value according to the cache options, and finds its policy.
+     * @see set for parameters.
+     * @returns The cache item, and its policy if any.
+     */
+    private createItem(
+        key: unknown,
+        value: unknown,
+        thisParameter?: unknown,
+        parameters?: unknown[],
+        options?: ICacheOptions): [ICacheItem, ICachePolicy | undefined] {
+
+        const now = this._clock.now();
+        const cacheItem: ICacheItem = {
+            key,
+            value,
+            created: now,
+            accessed: now
+        };
+
+        if (options) {
+            const itemContext = this.getContext(options, thisParameter, parameters);
+            if (itemContext !== undefined) {
+                cacheItem.context = itemContext;
+            }
+
+            if (options.policyKey) {
+                cacheItem.policyKey = this.getPolicyKey(options, parameters);
+            }
+        }
+
+        return [cacheItem, this.getPolicy(options, cacheItem.policyKey, () => cacheItem.context)];
+    }
+
+    /**
+     * Creates a cache item for a value according to the cache options and policy, and saves it to the storage.
+     * @see set for parameters.
+     */
+    private save(
+        key: unknown,
+        value: unknown,
+        thisParameter?: unknown,
+        parameters?: unknown[],
+        options?: ICacheOptions): MaybePromise<void> {
+
+        if (!this.writable()) {
+            return;
+        }
+
+        const [cacheItem, policy] = this.createItem(key, value, thisParameter, parameters, options);
+        if (policy) {
+            const maxAge = policy.maxAge;
+            if (maxAge === 0) {
+                return;
+            }
+
+            cacheItem.maxAge = typeof maxAge === "number"
+                ? maxAge
+                : (parameters ? maxAge(...parameters) : maxAge());
+            if (policy.sliding !== undefined) {
+                cacheItem.sliding = policy.sliding;
+            }
+
+            if (policy.fallbackToStale) {
+                cacheItem.fallbackToStale = policy.fallbackToStale;
+            }
+
+            const { staleWhileRevalidate, refreshAhead } = policy;
+            if (staleWhileRevalidate !== undefined || refreshAhead !== undefined) {
+                // Keep how the value was loaded, so it can be loaded again to refresh the item
+                if (staleWhileRevalidate !== undefined) {
+                    cacheItem.staleWhileRevalidate = staleWhileRevalidate;
+                }
+
+                if (refreshAhead !== undefined) {
+                    cacheItem.refreshAhead = refreshAhead;
+                }
+
+                cacheItem.thisParameter = thisParameter;
+                if (parameters) {
+                    cacheItem.parameters = parameters;
+                }
+            }
+        }
+
+        const resultMaxAge = policy && policy.resultMaxAge;
+        const checked = !!resultMaxAge || this.hasConditions(options) || this.hasConditions(policy);
+        if (!(value instanceof Promise)) {
+            try {
+                if (checked && !this.cacheable(value, parameters, options, policy)) {
+                    return;
+                }
+
+                if (resultMaxAge) {
+                    cacheItem.maxAge = resultMaxAge(value, ...(parameters || []));
+                }
+            } catch (error) {
+                // A failed check does not fail the call, its value is just not cached
+                this.emit("loadError", { key, policyKey: cacheItem.policyKey, error });
+                return;
+            }
+
+            return this.store(cacheItem);
+        }
+
+        const keepRejectedPromise = policy && policy.keepRejectedPromise;
+        if (keepRejectedPromise && !checked && (!policy || policy.errorMaxAge === undefined)) {
+            return this.store(cacheItem);
+        }
+
+        // When the original method fails, delete rejected promise so the original method can be invoked again,
+        // unless the error should be cached for a while.
+        // A resolved value that should not be cached is deleted the same way.
+        // An asynchronous storage may still be saving the promise when it settles, so wait for it first.
+        let stored = false;
+        let discarded = false;
+        const discard = (): void => {
+            discarded = true;
+            if (!stored) {
+                return;
+            }
+
+            const removal = chain(this.deleteHash(this.getHash(key)), () => undefined);
+            if (removal instanceof Promise) {
+                // Nobody is waiting for the removal, and the item expires anyway
+                removal.catch(() => undefined);
+            }
+        };
+        value.then(
+            resolved => {
+                try {
+                    if (!this.cacheable(resolved, parameters, options, policy)) {
+                        discard();
+                    } else if (resultMaxAge) {
+                        cacheItem.maxAge = resultMaxAge(resolved, ...(parameters || []));
+                    }
+                } catch (error) {
+                    // A failed check does not fail the call, its value is just not cached
+                    this.emit("loadError", { key, policyKey: cacheItem.policyKey, error });
+                    discard();
+                }
+            },
+            error => {
+                const errorMaxAge = this.getErrorMaxAge(error, parameters, policy);
+                if (errorMaxAge !== undefined) {
+                    this.fail(cacheItem, errorMaxAge);
+                } else if (!keepRejectedPromise) {
+                    discard();
+                }
+            });
+
+        return chain(this.store(cacheItem), () => {
+            stored = true;
+            return discarded ? chain(this.deleteHash(this.getHash(key)), () => undefined) : undefined;
+        });
+    }
+
+    /**
+     * Creates a cache item for an error thrown by a wrapped function, and saves it to the storage
+     * if the policy caches the error.
+     * @param key A unique key to identify the item.
+     * @param error The error thrown by the wrapped function.
+     * @param thisParameter The 'this' parameter used to call the wrapped function.
+     * @param parameters The parameters used to call the wrapped function.
+     * @param options The cache options.
+     */
+    private saveError(
+        key: unknown,
+        error: unknown,
+        thisParameter: unknown,
+        parameters: unknown[],
+        options: ICacheOptions | undefined): MaybePromise<void> {
+
+        if (!this.writable()) {
+            return;
+        }
+
+        const [cacheItem, policy] = this.createItem(key, error, thisParameter, parameters, options);
+        const errorMaxAge = this.getErrorMaxAge(error, parameters, policy);
+        if (errorMaxAge === undefined) {
+            return;
+        }
+
+        cacheItem.error = true;
+        this.fail(cacheItem, errorMaxAge);
+        return this.store(cacheItem);
+    }
+
+    /**
+     * Gets how long an error should be cached according to the policy.
+     * @param error The error thrown by a wrapped function, or the reason of a rejected promise.
+     * @param parameters The parameters used to call the wrapped function.
+     * @param policy The cache policy.
+     * @returns The max age of the error, or undefined if the error should not be cached.
+     */
+    private getErrorMaxAge(error: unknown, parameters: unknown[] | undefined, policy: ICachePolicy | undefined): number | undefined {
+        if (!policy || policy.errorMaxAge === undefined) {
+            return undefined;
+        }
+
+        const { errorMaxAge, cacheError } = policy;
+        return !cacheError || cacheError(error, ...(parameters || [])) ? errorMaxAge : undefined;
+    }
+
+    /**
+     * Marks an item as a failure, which expires after the max age of errors, and is never returned while stale.
+     * @param cacheItem The item of a failed call.
+     * @param errorMaxAge The max age of errors.
+     */
+    private fail(cacheItem: ICacheItem, errorMaxAge: number): void {
+        cacheItem.maxAge = errorMaxAge;
+        delete cacheItem.staleWhileRevalidate;
+        delete cacheItem.refreshAhead;
+        delete cacheItem.fallbackToStale;
+        delete cacheItem.thisParameter;
+        delete cacheItem.parameters;
+    }
+
+    /**
+     * Gets the value of an item. Errors cached for synchronous functions are thrown.
+     * @param cacheItem The cache item.
+     */
+    private valueOf(cacheItem: ICacheItem): unknown {
+        if (cacheItem.error) {
+            throw cacheItem.value;
+        }
+
+        return cacheItem.value;
+    }
+
+    /**
+     * Determines whether there are conditions to check before a value is cached.
+     * @param conditions The options or the policy of an item.
+     */
+    private hasConditions(conditions: ICacheConditions | undefined): boolean {
+        return !!conditions && !!(conditions.shouldCache || conditions.unless);
+    }
+
+    /**
+     * Determines whether a value passes the conditions of the options and the policy, so it should be cached.
+     * @param value The value, or the resolved value of a promise.
+     * @param parameters The parameters used to get the value.
+     * @param options The cache options.
+     * @param policy The cache policy.
+     */
+    private cacheable(
+        value: unknown,
+        parameters: unknown[] | undefined,
+        options: ICacheOptions | undefined,
+        policy: ICachePolicy | undefined): boolean {
+
+        for (const conditions of [options, policy]) {
+            if (conditions && conditions.shouldCache && !conditions.shouldCache(value, ...(parameters || []))) {
+                return false;
+            }
+
+            if (conditions && conditions.unless && conditions.unless(value)) {
+                return false;
+            }
+        }
+
+        return true;
+    }
+
+    /**
+     * Removes an item from the storage, and from its contexts. Peers remove the item too.
+     * @param key A unique key to identify a cache item.
+     */
+    private delete(key: unknown): MaybePromise<boolean> {
+        const keyHash = this.getHash(key);
+        this.publish({ kind: "remove", hashes: [keyHash] });
+        return this.deleteHash(keyHash);
+    }
+
+    /**
+     * Removes an item from the storage by its hash, and from its contexts.
+     * @param keyHash The hash of the item.
+     * @param expired Whether the item is removed because it has expired.
+     */
+    private deleteHash(keyHash: string, expired = false): MaybePromise<boolean> {
+        return chain(this.storage.remove(keyHash), cacheItem => this.removed(keyHash, cacheItem, expired));
+    }
+
+    /**
+     * Removes items from the storage, and from their contexts.
+     * Storages that implement bulk removals remove all items at once. Peers remove the items too.
+     * @param keys Unique keys to identify cache items.
+     * @returns The number of removed items.
+     */
+    private deleteMany(keys: unknown[]): MaybePromise<number> {
+        const keyHashes = keys.map(key => this.getHash(key));
+        this.publish({ kind: "remove", hashes: keyHashes });
+        const removals = this.storage.removeMany
+            ? chain(this.storage.removeMany(keyHashes), cacheItems => cacheItems.map(
+                (cacheItem, i) => this.removed(keyHashes[i] as string, cacheItem)))
+            : all(keyHashes.map(keyHash => this.deleteHash(keyHash)));
+        return chain(removals, removed => removed.filter(Boolean).length);
+    }
+
+    /**
+     * Removes an item from its contexts, after it has been removed from the storage.
+     * @param keyHash The hash of the item.
+     * @param cacheItem The removed item, if it existed.
+     * @param expired Whether the item is removed because it has expired.
+     * @returns True if the item existed; otherwise, false.
+     */
+    private removed(keyHash: string, cacheItem: ICacheItem | undefined, expired = false): boolean {
+        // The item may be gone from the storage already, but it must still be removed from its contexts
+        this.removeFromContext(keyHash);
+        if (cacheItem) {
+            this.emit(expired ? "expire" : "remove", { cacheItem });
+        }
+
+        return !!cacheItem;
+    }
+
+    /**
+     * Adds an item to its contexts.
+     * @param keyHash The hash of the item.
+     * @param cacheItem The item.
+     */
+    private addToContext(keyHash: string, cacheItem: ICacheItem): void {
+        const { context } = cacheItem;
+        const contexts = typeof context === "string" ? [context] : (context || []);
+        if (contexts.length === 0) {
+            return;
+        }
+
+        for (const itemContext of contexts) {
+            let hashes = this._contexts[itemContext];
+            if (!hashes) {
+                this._contexts[itemContext] = hashes = new Set();
+            }
+
+            hashes.add(keyHash);
+        }
+
+        this._memberships.set(keyHash, contexts);
+    }
+
+    /**
+     * Removes an item from all its contexts, after the item has been removed from the storage.
+     * @param keyHash The hash of the item.
+     */
+    private removeFromContext(keyHash: string): void {
+        const contexts = this._memberships.get(keyHash);
+        if (!contexts) {
+            return;
+        }
+
+        this._memberships.delete(keyHash);
+        for (const context of contexts) {
+            const hashes = this._contexts[context];
+            if (hashes) {
+                hashes.delete(keyHash);
+                if (hashes.size === 0) {
+                    delete this._contexts[context];
+                }
+            }
+        }
+    }
+
+    /**
+     * Runs a callback after contexts of existing items have been indexed.
+     * @param callback The callback that uses contexts.
+     */
+    private whenIndexed<T>(callback: () => MaybePromise<T>): MaybePromise<T> {
+        return this._indexing ? this._indexing.then(callback) : callback();
+    }
+
+    /**
+     * Finds contexts that start with the specified prefix.
+     * @param prefix The prefix of contexts.
+     */
+    private findContexts(prefix: string): string[] {
+        return Object.keys(this._contexts).filter(context => context.startsWith(prefix));
+    }
+
+    /**
+     * Removes all items with any of the specified contexts, once contexts are indexed. Peers remove the contexts too.
+     * @param contexts The contexts to remove.
+     */
+    private invalidateContexts(contexts: string[]): MaybePromise<void> {
+        this.publish({ kind: "removeContexts", contexts });
+        return this.whenIndexed(() => this.deleteContexts(contexts));
+    }
+
+    /**
+     * Removes all items with contexts that start with a prefix, once contexts are indexed.
+     * Peers remove their contexts with the prefix too, which may differ from the contexts of this manager.
+     * @param prefix The prefix of contexts to remove.
+     */
+    private invalidateContextPrefix(prefix: string): MaybePromise<void> {
+        this.publish({ kind: "removeContextPrefix", prefix });
+        return this.whenIndexed(() => this.deleteContexts(this.findContexts(prefix)));
+    }
+
+    /**
+     * Sends an invalidation message to peers, if the manager has a transport.
+     * @param invalidation What peers should remove.
+     */
+    private publish(invalidation: Omit<IInvalidationMessage, "origin" | "namespace">): void {
+        const { transport, namespace } = this._options;
+        if (!transport) {
+            return;
+        }
+
+        const message: IInvalidationMessage = { ...invalidation, origin: this.origin };
+        if (namespace !== undefined) {
+            message.namespace = namespace;
+        }
+
+        transport.publish(message);
+    }
+
+    /**
+     * Applies an invalidation message from a peer. The removals are not sent to peers again.
+     * @param message The received message.
+     */
+    private receive(message: IInvalidationMessage): void {
+        // Transports may deliver messages back to their senders, or from managers of other namespaces
+        if (message.origin === this.origin || message.namespace !== this._options.namespace) {
+            return;
+        }
+
+        const { hashes = [], contexts = [], prefix = "" } = message;
+        let invalidation: MaybePromise<unknown>;
+        switch (message.kind) {
+            case "remove":
+                invalidation = all(hashes.map(keyHash => this.deleteHash(keyHash)));
+                break;
+            case "removeContexts":
+                invalidation = this.whenIndexed(() => this.deleteContexts(contexts));
+                break;
+            case "removeContextPrefix":
+                invalidation = this.whenIndexed(() => this.deleteContexts(this.findContexts(prefix)));
+                break;
+            case "clear":
+                invalidation = this.clearAll(false);
+                break;
+            default:
+                // Sent by a newer version
+                return;
+        }
+
+        const received = chain(invalidation, () => this.emit("invalidate", { message }));
+        if (received instanceof Promise) {
+            // Nobody is waiting for the removals, and they will be retried by the next message
+            received.catch(() => undefined);
+        }
+    }
+
+    /**
+     * Removes all items with any of the specified contexts from the storage.
+     * @param contexts The contexts to remove.
+     */
+    private deleteContexts(contexts: string[]): MaybePromise<void> {
+        const keyHashes = new Set<string>();
+        const removedContexts = contexts.filter(context => {
+            const hashes = this._contexts[context];
+            if (hashes) {
+                hashes.forEach(keyHash => keyHashes.add(keyHash));
+            }
+
+            return !!hashes;
+        });
+
+        return chain(all([...keyHashes].map(keyHash => this.deleteHash(keyHash))), () => {
+            for (const context of removedContexts) {
+                this.emit("contextRemoved", { context });
+            }
+        });
+    }
+
+    /**
+     * Determines whether a cache item should be refreshed in the background,
+     * because it has expired or it is about to expire.
+     * @param cacheItem The cache item to check.
+     */
+    private needsRefresh(cacheItem: ICacheItem): boolean {
+        const { maxAge, refreshAhead } = cacheItem;
+        if (!maxAge) {
+            return false;
+        }
+
+        const age = this.age(cacheItem);
+        return age > maxAge || (refreshAhead !== undefined && age >= maxAge * refreshAhead);
+    }
+
+    /**
+     * Calls a wrapped function again in the background to refresh a cache item.
+     * The cached value is replaced after a new value is successfully loaded.
+     * @param target The wrapped function.
+     * @param cacheItem The cache item to refresh.
+     * @param cacheOptions Options to control caching behavior.
+     * @param callThis The 'this' parameter of the current call, used if the item does not keep its own.
+     * @param callParameters Parameters of the current call, used if the item does not keep its own.
+     */
+    private refresh(
+        target: Function, // eslint-disable-line @typescript-eslint/ban-types
+        cacheItem: ICacheItem,
+        cacheOptions: ICacheOptions | undefined,
+        callThis: unknown,
+        callParameters: unknown[]): void {
+
+        const keyHash = this.getHash(cacheItem.key);
+        if (this._refreshes.has(keyHash)) {
+            return;
+        }
+
+        this._refreshes.add(keyHash);
+        const done = (): void => {
+            this._refreshes.delete(keyHash);
+        };
+        const fail = (error: unknown): void => {
+            done();
+            this.emit("loadError", { key: cacheItem.key, policyKey: cacheItem.policyKey, error });
+            const { onRefreshError } = this._options;
+            if (onRefreshError) {
+                onRefreshError(error, cacheItem);
+            }
+        };
+
+        // The origin is not called while its circuit is open, callers keep getting the stale value
+        const { key, policyKey } = cacheItem;
+        const policy = this.getPolicy(cacheOptions, policyKey, () => cacheItem.context);
+        const circuit = this.getCircuit(policy, policyKey);
+        if (circuit && !circuit.tryCall(this._clock.now())) {
+            done();
+            return;
+        }
+
+        // Items restored from a persistent storage do not keep how their values were loaded
+        const thisParameter = cacheItem.parameters ? cacheItem.thisParameter : callThis;
+        const parameters = cacheItem.parameters || callParameters;
+        try {
+            const value = this.load(target, thisParameter, parameters, policy, circuit);
+
+            // Callers keep getting the current value until the new value is ready
+            const result = chain(value, () => this.save(key, value, thisParameter, parameters, cacheOptions));
+            if (result instanceof Promise) {
+                result.then(done, fail);
+            } else {
+                done();
+            }
+        } catch (error) {
+            fail(error);
+        }
+    }
+
+    /**
+     * Removes all items that match a condition from the storage, and from their contexts.
+     * Peers remove the same items too, unless they are removed because they have expired.
+     * @param predicate A function that determines whether an item should be removed.
+     * @param expired Whether the items are removed because they have expired.
+     * @returns The number of removed items.
+     */
+    private deleteWhere(predicate: (cacheItem: ICacheItem) => boolean, expired = false): MaybePromise<number> {
+        return chain(this.ownEntries(), entries => {
+            const keyHashes = entries.filter(([, cacheItem]) => predicate(cacheItem)).map(([keyHash]) => keyHash);
+            if (!expired) {
+                this.publish({ kind: "remove", hashes: keyHashes });
+            }
+
+            const removals = keyHashes.map(keyHash => this.deleteHash(keyHash, expired));
+            return chain(all(removals), removed => removed.filter(Boolean).length);
+        });
+    }
+
+    /**
+     * Removes all items that can no longer be used from the storage, and from their contexts.
+     * @returns The number of removed items.
+     */
+    private purge(): MaybePromise<number> {
+        const now = this._clock.now();
+        return this.deleteWhere(cacheItem => this.dead(cacheItem, now), true);
+    }
+
+    /**
+     * Calls the listeners of a cache event.
+     * @param name The name of the event.
+     * @param event The event passed to the listeners.
+     */
+    private emit<K extends CacheEventName>(name: K, event: ICacheEventMap[K]): void {
+        const listeners = this._listeners.get(name);
+        if (listeners) {
+            for (const listener of listeners) {
+                try {
+                    (listener as CacheEventListener<K>)(event);
+                } catch {
+                    // A failing listener must not break caching
+                }
+            }
+        }
+    }
+
+    /**
+     * Increments a counter of cache statistics.
+     * @param name The name of the counter.
+     * @param policyKey The policy key of the item, if any.
+     */
+    private count(name: CounterName, policyKey: unknown): void {
+        this._stats.increment(name, policyKey, policyKey === undefined ? undefined : this.getHash(policyKey));
+    }
+
+    /**
+     * Finds the policy of a call, in the order of @see addPolicyRules.
+     * @param options Options to control caching behavior.
+     * @param policyKey The policy key of the call, @see getPolicyKey.
+     * @param getContext Gets the context of the call, only if a rule needs it.
+     */
+    private getPolicy(
+        options: ICacheOptions | undefined,
+        policyKey: unknown,
+        getContext: () => string | string[] | undefined): ICachePolicy | undefined {
+
+        const policy = options && options.policyKey ? this._policies[this.getHash(policyKey)] : undefined;
+        return policy || this.matchRule(policyKey, getContext) || (options && options.policy);
+    }
+
+    /**
+     * Finds the policy of the first rule that matches a call.
+     * @param policyKey The policy key of the call. Policy keys of decorated methods tell their classes and names.
+     * @param getContext Gets the context of the call.
+     * @returns The policy of the rule, or undefined if no rule matches.
+     */
+    private matchRule(policyKey: unknown, getContext: () => string | string[] | undefined): ICachePolicy | undefined {
+        if (this._rules.length === 0) {
+            return undefined;
+        }
+
+        let className: string | undefined;
+        let methodName: string | undefined;
+        if (Array.isArray(policyKey) && policyKey.length === 2 && typeof policyKey[0] === "function") {
+            className = (policyKey[0] as { name: string }).name;
+            methodName = String(policyKey[1]);
+        }
+
+        const name = typeof policyKey === "string" || typeof policyKey === "number" ? String(policyKey) : undefined;
+        let contexts: string[] | undefined;
+        const matches = (pattern: RegExp | undefined, value: string | undefined): boolean =>
+            !pattern || (value !== undefined && pattern.test(value));
+        for (const rule of this._rules) {
+            if (!matches(rule.class, className) || !matches(rule.method, methodName) || !matches(rule.policyKey, name)) {
+                continue;
+            }
+
+            if (rule.context) {
+                const context = rule.context;
+                contexts = contexts || ([] as string[]).concat(getContext() || []);
+                if (!contexts.some(itemContext => context.test(itemContext))) {
+                    continue;
+                }
+            }
+
+            return rule.policy;
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Gets the context of a call according to the cache options.
+     * @param options Options to control caching behavior.
+     * @param thisParameter The 'this' parameter of the call.
+     * @param parameters Parameters of the call.
+     */
+    private getContext(options: ICacheOptions | undefined, thisParameter: unknown, parameters?: unknown[]): string | string[] | undefined {
+        const context = options && options.context;
+        if (!context) {
+            return undefined;
+        }
+
+        return typeof context === "function"
+            ? (parameters ? context.apply(thisParameter, parameters) : context.apply(thisParameter))
+            : context;
+    }
+
+    /** Gets the mode of the manager, or of the current scope if it caches less. */
+    private currentMode(): CacheMode {
+        const scoped = CacheManager._modeScope && CacheManager._modeScope();
+        return scoped && modeOrder.indexOf(scoped) > modeOrder.indexOf(this._mode) ? scoped : this._mode;
+    }
+
+    /** Determines whether values can be read from the cache in the current mode. */
+    private readable(): boolean {
+        const mode = this.currentMode();
+        return mode === "normal" || mode === "readOnly";
+    }
+
+    /** Determines whether values can be saved to the cache in the current mode. */
+    private writable(): boolean {
+        return this.currentMode() === "normal";
+    }
+
+    /**
+     * Gets the circuit breaker of a policy key, or of a policy for calls without a policy key.
+     * @param policy The policy of the call.
+     * @param policyKey The policy key of the call.
+     * @returns The circuit breaker, or undefined if the policy does not use one.
+     */
+    private getCircuit(policy: ICachePolicy | undefined, policyKey: unknown): CircuitBreaker | undefined {
+        if (!policy || !policy.circuitBreaker) {
+            return undefined;
+        }
+
+        const id = policyKey === undefined ? policy : this.getHash(policyKey);
+        let circuit = this._circuits.get(id);
+        if (!circuit) {
+            circuit = new CircuitBreaker(policy.circuitBreaker);
+            this._circuits.set(id, circuit);
+        }
+
+        return circuit;
+    }
+
+    /**
+     * Calls a wrapped function to load a value, with the load timeout and the abort signal of the policy,
+     * and reports the result to the circuit breaker.
+     * @param target The wrapped function.
+     * @param thisParameter The 'this' parameter of the call.
+     * @param parameters The parameters of the call.
+     * @param policy The policy of the call.
+     * @param circuit The circuit breaker of the call, if any.
+     * @returns The value, or a promise that is rejected if it is not settled in time.
+     */
+    private load(
+        target: Function, // eslint-disable-line @typescript-eslint/ban-types
+        thisParameter: unknown,
+        parameters: unknown[],
+        policy: ICachePolicy | undefined,
+        circuit: CircuitBreaker | undefined): unknown {
+
+        const loadTimeout = policy && policy.loadTimeout;
+        const signalIndex = policy && policy.signalIndex;
+        const controller = loadTimeout !== undefined && signalIndex !== undefined ? new AbortController() : undefined;
+        let callParameters = parameters;
+        if (controller && signalIndex !== undefined) {
+            callParameters = [...parameters];
+            callParameters[signalIndex] = controller.signal;
+        }
+
+        let value: unknown;
+        try {
+            value = target.apply(thisParameter, callParameters);
+        } catch (error) {
+            if (circuit) {
+                circuit.fail(this._clock.now());
+            }
+
+            throw error;
+        }
+
+        if (!(value instanceof Promise)) {
+            if (circuit) {
+                circuit.succeed();
+            }
+
+            return value;
+        }
+
+        const promise = loadTimeout !== undefined ? withTimeout(value, loadTimeout, controller) : value;
+        if (circuit) {
+            this._asyncCircuits.add(circuit);
+            promise.then(() => circuit.succeed(), () => circuit.fail(this._clock.now()));
+        }
+
+        return promise;
+    }
+
+    /**
+     * Reads the last value of a call, to be returned if loading a new value fails, @see ICachePolicy.fallbackToStale.
+     * @param key A unique key to identify the item.
+     * @param policy The policy of the call.
+     * @returns The item of the last value, or undefined if it is missing, or if the policy does not fall back.
+     * The value of an asynchronous function is the promise that was resolved to it.
+     */
+    private findFallback(key: unknown, policy: ICachePolicy | undefined): MaybePromise<ICacheItem | undefined> {
+        if (!policy || !policy.fallbackToStale || !this.readable()) {
+            return undefined;
+        }
+
+        const now = this._clock.now();
+        return chain(this.peek(key), cacheItem =>
+            cacheItem && !cacheItem.error && !this.dead(cacheItem, now)
+                ? cacheItem
+                : undefined);
+    }
+
+    /**
+     * Gets the policy key of a call according to the cache options.
+     * @param options Options to control caching behavior.
+     * @param parameters Parameters of the call.
+     */
+    private getPolicyKey(options: ICacheOptions | undefined, parameters?: unknown[]): unknown {
+        const policyKey = options && options.policyKey;
+        return typeof policyKey === "function"
+            ? (parameters ? policyKey(...parameters) : policyKey())
+            : policyKey;
+    }
+
+    /**
+     * Gets the parameters of a call that are part of the cache key, according to the cache options.
+     * @param options Options to control caching behavior.
+     * @param thisParameter The 'this' parameter of the call.
+     * @param parameters Parameters of the call.
+     */
+    private getKeyParameters(options: ICacheOptions | undefined, thisParameter: unknown, parameters: unknown[]): unknown[] {
+        if (!options) {
+            return parameters;
+        }
+
+        const { key, argIndexes, ignoreArgs } = options;
+        if (key) {
+            return [key.apply(thisParameter, parameters)];
+        }
+
+        if (argIndexes) {
+            return argIndexes.map(index => parameters[index]);
+        }
+
+        if (ignoreArgs) {
+            return parameters.filter((_parameter, index) => ignoreArgs.indexOf(index) < 0);
+        }
+
+        return parameters;
+    }
+
+    /**
+     * Returns the result of a storage operation, which must have completed synchronously.
+     * @param result The result of a storage operation.
+     */
+    private sync<T>(result: MaybePromise<T>): T {
+        if (result instanceof Promise) {
+            // The operation will still complete, but nobody is waiting for it
+            result.catch(() => undefined);
+            throw new Error("The cache storage is asynchronous. Use the asynchronous methods instead.");
+        }
+
+        return result;
+    }
+
+    /**
+     * Calculates the hash of a key. Strings and hashes are prefixed differently, so they never collide.
+     * @param key A key to calculate hash for.
+     */
+    private getHash(key: unknown): string {
+        return this.hashPrefix + (typeof key === "string" ? `s:${key}` : `h:${this._keyHasher(key)}`);
+    }
+
+    /**
+     * Gets the prefix of hashes of this manager, so managers of different namespaces can share the same storage.
+     */
+    private get hashPrefix(): string {
+        const { namespace } = this._options;
+        return namespace === undefined ? "" : `n:${encodeURIComponent(namespace)}:`;
+    }
+
+    /**
+     * Determines whether an item in the storage belongs to the namespace of this manager.
+     * @param keyHash The hash of the item.
+     */
+    private owns(keyHash: string): boolean {
+        return this._options.namespace === undefined ? !keyHash.startsWith("n:") : keyHash.startsWith(this.hashPrefix);
+    }
+
+    /**
+     * Gets all items in the storage that belong to the namespace of this manager.
+     * @returns Pairs of hashes and cache items.
+     */
+    private ownEntries(): MaybePromise<[string, ICacheItem][]> {
+        return chain(this.storage.entries(), entries => entries.filter(([keyHash]) => this.owns(keyHash)));
+    }
+
+    /**
+     * Clears the cache of this manager, @see clear.
+     * @param publish Whether peers clear their caches too.
+     */
+    private clearAll(publish = true): MaybePromise<void> {
+        if (publish) {
+            this.publish({ kind: "clear" });
+        }
+
+        this._contexts = {};
+        this._memberships.clear();
+        return chain(this.clearStorage(), () => this.emit("clear", {}));
+    }
+
+    /**
+     * Removes all items of the namespace of this manager from the storage.
+     * The storage is only cleared at once when no other namespace uses it.
+     */
+    private clearStorage(): MaybePromise<void> {
+        return chain(this.storage.entries(), entries => {
+            if (entries.every(([keyHash]) => this.owns(keyHash))) {
+                return this.storage.clear();
+            }
+
+            const removals = entries
+                .filter(([keyHash]) => this.owns(keyHash))
+                .map(([keyHash]) => this.storage.remove(keyHash));
+            return chain(all(removals), () => undefined);
+        });
+    }
+
+    /**
+     * Gets all items of the namespace of this manager that have not expired.
+     */
+    private liveItems(): MaybePromise<ICacheItem[]> {
+        const now = this._clock.now();
+        return chain(this.ownEntries(), entries => entries
+            .map(([, cacheItem]) => cacheItem)
+            .filter(cacheItem => !this.expired(cacheItem, now)));
+    }
+
+    /**
+     * Describes an item for debugging, @see inspect.
+     * @param key A unique key to identify a cache item.
+     */
+    private describe(key: unknown): MaybePromise<ICacheItemInfo | undefined> {
+        return chain(this.peek(key), cacheItem => {
+            if (!cacheItem) {
+                return undefined;
+            }
+
+            const { context, policyKey, created, accessed, maxAge, value } = cacheItem;
+            const age = this.age(cacheItem);
+            const info: ICacheItemInfo = {
+                key,
+                created,
+                accessed,
+                age,
+                expired: this.expired(cacheItem),
+                promise: value instanceof Promise
+            };
+            if (context !== undefined) {
+                info.context = context;
+            }
+
+            if (policyKey !== undefined) {
+                info.policyKey = policyKey;
+            }
+
+            if (maxAge) {
+                info.maxAge = maxAge;
+                info.ttl = maxAge - age;
+            }
+
+            return info;
+        });
+    }
+
+    /**
+     * Gets the serializer of snapshots.
+     */
+    private get snapshotSerializer(): ICacheSerializer {
+        return this._options.serializer || new JsonCacheSerializer();
+    }
+
+    /**
+     * Serializes all items that have not expired, except promises, @see exportSnapshot.
+     */
+    private snapshot(): MaybePromise<string> {
+        const now = this._clock.now();
+        const serializer = this.snapshotSerializer;
+        return chain(this.ownEntries(), entries => {
+            const records: string[] = [];
+            let skipped = 0;
+            for (const [keyHash, cacheItem] of entries) {
+                if (this.expired(cacheItem, now) || cacheItem.value instanceof Promise) {
+                    continue;
+                }
+
+                // How values were loaded cannot be serialized. Hashes are saved without the namespace of this manager.
+                // eslint-disable-next-line @typescript-eslint/no-unused-vars
+                const { thisParameter, parameters, ...item } = cacheItem;
+                const text = serializer.serialize({ hash: keyHash.slice(this.hashPrefix.length), item });
+                if (text !== undefined) {
+                    records.push(text);
+                } else {
+                    skipped++;
+                    this.emit("snapshotSkip", { cacheItem, reason: "unserializable" });
+                }
+            }
+
+            const snapshot: ICacheSnapshot = { version: snapshotVersion, created: now.toISOString(), records, skipped };
+            return JSON.stringify(snapshot);
+        });
+    }
+
+    /**
+     * Saves items of a snapshot to the storage, except items that have expired, @see importSnapshot.
+     * @param snapshotText The snapshot.
+     * @returns The number of imported items.
+     */
+    private restore(snapshotText: string): MaybePromise<number> {
+        const snapshot = JSON.parse(snapshotText) as ICacheSnapshot;
+        if (snapshot.version !== snapshotVersion) {
+            return 0;
+        }
+
+        const now = this._clock.now();
+        const serializer = this.snapshotSerializer;
+        const writable = this.writable();
+        const saves: MaybePromise<void>[] = [];
+        for (const text of snapshot.records) {
+            const record = serializer.deserialize(text);
+            if (!record) {
+                this.emit("snapshotSkip", { cacheItem: undefined, reason: "unreadable" });
+            } else if (!this.expired(record.item, now)) {
+                if (writable) {
+                    saves.push(this.storeHash(this.hashPrefix + record.hash, record.item));
+                } else {
+                    this.emit("snapshotSkip", { cacheItem: record.item, reason: "readOnly" });
+                }
+            }
+        }
+
+        return chain(all(saves), () => saves.length);
+    }
+
+    /**
+     * Determines whether a cache item has expired.
+     * @param cacheItem The cache item to check.
+     * @param time The time used to calculate the cache item's age.
+     * @returns True if the cache item has expired; otherwise, false.
+     */
+    private expired(cacheItem: ICacheItem, time?: Date): boolean {
+        if (!cacheItem.maxAge) {
+            return false;
+        }
+
+        return this.age(cacheItem, time) > cacheItem.maxAge;
+    }
+
+    /**
+     * Determines whether a cache item has expired, and can no longer be returned even while it is refreshed.
+     * @param cacheItem The cache item to check.
+     * @param time The time used to calculate the cache item's age.
+     * @returns True if the cache item can no longer be used; otherwise, false.
+     */
+    private dead(cacheItem: ICacheItem, time?: Date): boolean {
+        const { staleWhileRevalidate = 0, fallbackToStale } = cacheItem;
+        if (fallbackToStale === true) {
+            return false;
+        }
+
+        return this.outdated(cacheItem, Math.max(staleWhileRevalidate, fallbackToStale || 0), time);
+    }
+
+    /**
+     * Determines whether a cache item expired longer ago than a period.
+     * @param cacheItem The cache item to check.
+     * @param period The period after the item expires, in milliseconds.
+     * @param time The time used to calculate the cache item's age.
+     */
+    private outdated(cacheItem: ICacheItem, period: number, time?: Date): boolean {
+        if (!cacheItem.maxAge) {
+            return false;
+        }
+
+        return this.age(cacheItem, time) > cacheItem.maxAge + period;
+    }
+
+    /**
+     * Calculates the age of a cache item.
+     * @param cacheItem The cache item.
+     * @param time The time used to calculate the cache item's age.
+     * @returns The age of the cache item, in milliseconds.
+     */
+    private age(cacheItem: ICacheItem, time?: Date): number {
         const start = cacheItem.sliding ? cacheItem.accessed : cacheItem.created;
-        const age = (time || new Date()).valueOf() - start.valueOf();
-        return age > cacheItem.maxAge;
+        return (time || this._clock.now()).valueOf() - start.valueOf();
     }
 }
 
@@ -0,0 +1,9 @@
+/**
+ * The mode of a cache manager, e.g. to debug without caches.
+ * - normal: Values are read from and saved to the cache.
+ * - readOnly: Cached values are read, but nothing is saved.
+ * - bypass: Nothing is read or saved. Wrapped functions are always called.
+ * - disabled: Like bypass, and the cache is cleared when the mode is set.
+ * Removals work in all modes, so that peers and later modes do not see outdated values.
+ */
+export type CacheMode = "normal" | "readOnly" | "bypass" | "disabled";
@@ -1,19 +1,48 @@
+import { ICacheConditions } from "./cache-conditions";
 import { ICachePolicy } from "./cache-policy";
 
-/** Options to control the caching behavior. */
-export interface ICacheOptions {
+/**
+ * A key used to find a cache policy, or a function that takes parameters and returns a policy key.
+ * @template P The types of the parameters used to get values.
+ */
+export type PolicyKey<P extends unknown[] = unknown[]> = ((...parameters: P) => unknown) | string | number | boolean | bigint | symbol | object | null;
+
+/**
+ * Options to control the caching behavior. Values are only cached if they pass the conditions of both the options and the policy.
+ * @template P The types of the parameters used to get values, e.g. of a wrapped function.
+ */
+export interface ICacheOptions<P extends unknown[] = unknown[]> extends ICacheConditions<P> {
     /**
-     * A string context, or a function that returns a string context.
+     * A string context, or a function that returns a string context. Multiple contexts can be used as an array.
      * Contexts are used to group cached data. Items with the same context can be removed together easily.
      */
-    context?: string | ((...parameters: unknown[]) => string | undefined);
+    context?: string | string[] | ((...parameters: P) => string | string[] | undefined);
 
     /** A key used to find cache policy. Or, a function to get a policy key. */
-    policyKey?: unknown;
+    policyKey?: PolicyKey<P>;
 
     /**
      * The cache policy to be used.
      * If a policy is found using @see policyKey, then that policy will be used, and this property is ignored.
      */
-    policy?: ICachePolicy;
+    policy?: ICachePolicy<P>;
+
+    /**
+     * Whether to coalesce concurrent calls of a wrapped function. While a value is being loaded for a key,
+     * other calls with the same key wait for the same result, instead of calling the wrapped function again.
+     */
+    dedupe?: boolean;
+
+    /**
+     * A function that takes the parameters of a wrapped function, and returns the part of the cache key that
+     * identifies them. If omitted, all parameters are part of the cache key, unless limited by @see argIndexes
+     * or @see ignoreArgs.
+     */
+    key?: (...parameters: P) => unknown;
+
+    /** Indexes of the parameters that are part of the cache key. Other parameters are ignored. */
+    argIndexes?: number[];
+
+    /** Indexes of the parameters that are not part of the cache key, e.g. loggers or abort signals. */
+    ignoreArgs?: number[];
 }
@@ -0,0 +1,10 @@
+import { ICachePolicyRule } from "./cache-policy-rule";
+
+/**
+ * A configuration of cache policies, which can be loaded from JSON, @see CacheManager.loadPolicyConfig.
+ * Policies of JSON configurations can only have values, e.g. `{ "maxAge": 60000 }`, not functions.
+ */
+export interface ICachePolicyConfig {
+    /** Rules to find policies of calls. The first rule that matches a call is used. */
+    rules: ICachePolicyRule[];
+}
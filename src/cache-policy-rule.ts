@@ -0,0 +1,26 @@
+import { ICachePolicy } from "./cache-policy";
+
+/**
+ * A rule that applies a policy to calls that match all of its conditions, @see CacheManager.addPolicyRules.
+ * Conditions are glob patterns, where `*` matches any characters and `?` matches a single character.
+ * A rule without conditions matches all calls.
+ */
+export interface ICachePolicyRule {
+    /**
+     * A pattern of class names. Decorated methods have policy keys of their classes and names,
+     * e.g. `[UserService, "getUser"]`, so their class names are known.
+     */
+    class?: string;
+
+    /** A pattern of method names of decorated methods, or of policy keys like `[UserService, "getUser"]`. */
+    method?: string;
+
+    /** A pattern of contexts. It matches if any context of the call matches. */
+    context?: string;
+
+    /** A pattern of policy keys, which matches string and number policy keys. */
+    policyKey?: string;
+
+    /** The policy of matching calls. */
+    policy: ICachePolicy;
+}
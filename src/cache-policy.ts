@@ -1,10 +1,23 @@
-/** The policy to determine how long an item should be cached. */
-export interface ICachePolicy {
+import { ICacheConditions } from "./cache-conditions";
+import { ICircuitBreakerOptions } from "./circuit-breaker-options";
+
+/**
+ * The policy to determine how long an item should be cached, and which values should be cached.
+ * @template P The types of the parameters used to get values, e.g. of a wrapped function.
+ */
+export interface ICachePolicy<P extends unknown[] = unknown[]> extends ICacheConditions<P> {
     /**
      * The max age of a cache item, in milliseconds.
      * Or, a function that takes parameters and returns the max age of a cache item.
      */
-    maxAge: number | ((...parameters: unknown[]) => number);
+    maxAge: number | ((...parameters: P) => number);
+
+    /**
+     * A function that takes a value and the parameters used to get it, and returns the max age of the item,
+     * e.g. from the Cache-Control header of an HTTP response. It overrides @see maxAge.
+     * For a promise, @see maxAge applies until the promise is resolved.
+     */
+    resultMaxAge?: (value: unknown, ...parameters: P) => number;
 
     /**
      * Whether to reset the age of an item whenever it is accessed.
@@ -17,4 +30,56 @@ export interface ICachePolicy {
      * To keep the rejected promise until it expires, set this flag to true.
      */
     keepRejectedPromise?: boolean;
+
+    /**
+     * How long, in milliseconds, failures of a wrapped function are cached, e.g. to protect a failing upstream server
+     * from retries. It applies to both rejected promises and errors thrown by synchronous functions,
+     * and overrides @see keepRejectedPromise. If omitted, errors are not cached.
+     */
+    errorMaxAge?: number;
+
+    /**
+     * A function that takes an error and the parameters of a failed call, and returns whether the error should be
+     * cached for @see errorMaxAge, e.g. only "not found" errors. If omitted, all errors are cached.
+     */
+    cacheError?: (error: unknown, ...parameters: P) => boolean;
+
+    /**
+     * How long, in milliseconds, an expired item can still be returned by a wrapped function.
+     * When an expired item is returned, the wrapped function is called again in the background to refresh it.
+     */
+    staleWhileRevalidate?: number;
+
+    /**
+     * A fraction of the max age (e.g. 0.8), after which the wrapped function is called again in the background
+     * to refresh an item before it expires.
+     */
+    refreshAhead?: number;
+
+    /**
+     * How long, in milliseconds, a wrapped function can take to load a value. A promise that is not settled in time
+     * is rejected with a "TimeoutError", and removed from the cache. @see signalIndex
+     */
+    loadTimeout?: number;
+
+    /**
+     * The index of the parameter of a wrapped function that receives an AbortSignal, which is aborted when
+     * the @see loadTimeout is up. Missing parameters before it are passed as undefined. The signal is not part of
+     * the cache key. If omitted, no signal is passed.
+     */
+    signalIndex?: number;
+
+    /**
+     * Stops calling a wrapped function for a while after it fails repeatedly, to protect a failing origin.
+     * While the circuit is open, calls fail with a "CircuitOpenError". Calls with the same policy key share a circuit,
+     * and calls without a policy key share a circuit per policy.
+     */
+    circuitBreaker?: ICircuitBreakerOptions;
+
+    /**
+     * Whether to return the last value loaded by a wrapped function, even if it has expired, when loading a new value
+     * fails, times out, or is stopped by the circuit breaker. Expired items are kept until they are replaced, removed
+     * or evicted. Or, how long, in milliseconds, expired items are kept after they expire.
+     */
+    fallbackToStale?: boolean | number;
 }
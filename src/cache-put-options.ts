@@ -0,0 +1,13 @@
+import { CachedMethodReference } from "./cache-decorator-options";
+
+/** Options of @see cachePut, which determine where results of a decorated method are cached. */
+export interface ICachePutOptions {
+    /** The cached method whose cache the results are written to. */
+    target: CachedMethodReference;
+
+    /**
+     * A function that takes 'this' and the parameters of the decorated method, and returns the parameters
+     * of the call of the @see target that returns the same result. Defaults to the parameters of the decorated method.
+     */
+    key?: (...parameters: unknown[]) => unknown[];
+}
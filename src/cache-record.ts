@@ -0,0 +1,16 @@
+import { ICacheItem } from "./cache-item";
+
+/** A cache item as it is saved by a persistent storage. */
+export interface ICacheRecord {
+    /** The hash of the item. */
+    hash: string;
+
+    /** Whether the value was a promise, which is saved after it is resolved. */
+    promise?: boolean;
+
+    /** Whether the promise was rejected. Then the value is the error, which is restored as a rejected promise. */
+    rejected?: boolean;
+
+    /** The item. How its value was loaded (@see ICacheItem.thisParameter and @see ICacheItem.parameters) is not saved. */
+    item: Omit<ICacheItem, "thisParameter" | "parameters">;
+}
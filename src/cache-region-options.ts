@@ -0,0 +1,10 @@
+import { ICacheOptions } from "./cache-options";
+
+/**
+ * Options of a cache region. Callbacks of the options take the key of an item as their only parameter.
+ * @template K The type of keys in the region.
+ */
+export interface ICacheRegionOptions<K> extends Omit<ICacheOptions<[K]>, "dedupe" | "key" | "argIndexes" | "ignoreArgs"> {
+    /** The name of the region, which separates its keys from keys of other regions. */
+    name: string;
+}
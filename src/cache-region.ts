@@ -0,0 +1,126 @@
+import { CacheManager } from "./cache-manager";
+import { ICacheOptions } from "./cache-options";
+import { ICacheRegionOptions } from "./cache-region-options";
+
+/** The key of an item in a region, as it is saved by a cache manager. */
+interface IRegionKey<K> {
+    region: string;
+    key: K;
+}
+
+/**
+ * A region of a cache manager, whose keys and values have specific types, e.g. users by their IDs.
+ * Items of a region are saved with the options of the region, and can be cleared together.
+ * @template K The type of keys in the region.
+ * @template V The type of values in the region.
+ */
+export class CacheRegion<K, V> {
+    /**
+     * Creates a cache region. @see CacheManager.createRegion
+     * @param manager The cache manager that saves items of the region.
+     * @param options The name of the region, and options to control caching behavior of its values.
+     */
+    constructor(public readonly manager: CacheManager, public readonly options: ICacheRegionOptions<K>) { }
+
+    /**
+     * Gets a cached value.
+     * @param key A unique key in the region.
+     * @returns The cached value if it exists; otherwise, undefined.
+     */
+    public get(key: K): V | undefined {
+        return this.manager.get<V>(this.getKey(key));
+    }
+
+    /**
+     * Gets a cached value. Works with both synchronous and asynchronous storages.
+     * @param key A unique key in the region.
+     * @returns A promise that resolves to the cached value if it exists; otherwise, undefined.
+     */
+    public getAsync(key: K): Promise<V | undefined> {
+        return this.manager.getAsync<V>(this.getKey(key));
+    }
+
+    /**
+     * Determines whether the region contains a value.
+     * @param key A unique key in the region.
+     */
+    public has(key: K): boolean {
+        return this.manager.has(this.getKey(key));
+    }
+
+    /**
+     * Determines whether the region contains a value. Works with both synchronous and asynchronous storages.
+     * @param key A unique key in the region.
+     */
+    public hasAsync(key: K): Promise<boolean> {
+        return this.manager.hasAsync(this.getKey(key));
+    }
+
+    /**
+     * Saves a value to the region.
+     * @param key A unique key in the region.
+     * @param value The value to be cached.
+     */
+    public set(key: K, value: V): void {
+        this.manager.set(this.getKey(key), value, undefined, [key], this.options as ICacheOptions);
+    }
+
+    /**
+     * Saves a value to the region. Works with both synchronous and asynchronous storages.
+     * @param key A unique key in the region.
+     * @param value The value to be cached.
+     */
+    public setAsync(key: K, value: V): Promise<void> {
+        return this.manager.setAsync(this.getKey(key), value, undefined, [key], this.options as ICacheOptions);
+    }
+
+    /**
+     * Removes a value from the region.
+     * @param key A unique key in the region.
+     * @returns True if the value existed; otherwise, false.
+     */
+    public remove(key: K): boolean {
+        return this.manager.remove(this.getKey(key));
+    }
+
+    /**
+     * Removes a value from the region. Works with both synchronous and asynchronous storages.
+     * @param key A unique key in the region.
+     * @returns A promise that resolves to true if the value existed; otherwise, false.
+     */
+    public removeAsync(key: K): Promise<boolean> {
+        return this.manager.removeAsync(this.getKey(key));
+    }
+
+    /**
+     * Removes all values of the region. Other items of the cache manager are kept.
+     * @returns The number of removed values.
+     */
+    public clear(): number {
+        return this.manager.removeWhere(({ key }) => this.owns(key));
+    }
+
+    /**
+     * Removes all values of the region. Works with both synchronous and asynchronous storages.
+     * @returns A promise that resolves to the number of removed values.
+     */
+    public clearAsync(): Promise<number> {
+        return this.manager.removeWhereAsync(({ key }) => this.owns(key));
+    }
+
+    /**
+     * Gets the key of an item in the cache manager.
+     * @param key A unique key in the region.
+     */
+    private getKey(key: K): IRegionKey<K> {
+        return { region: this.options.name, key };
+    }
+
+    /**
+     * Determines whether a key of the cache manager belongs to the region.
+     * @param key A key of the cache manager.
+     */
+    private owns(key: unknown): boolean {
+        return typeof key === "object" && key !== null && (key as IRegionKey<K>).region === this.options.name;
+    }
+}
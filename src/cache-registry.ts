@@ -0,0 +1,35 @@
+import { CacheManager, cacheManager } from "./cache-manager";
+
+/** Cache managers registered by name. */
+const registry = new Map<string, CacheManager>();
+
+/**
+ * Registers a cache manager by name, so it can be used by decorated methods, e.g. `@cache({ manager: "billing" })`.
+ * A name can only be registered once, before the manager is used through the registry.
+ * @param name The name of the manager.
+ * @param manager The manager to register.
+ */
+export function registerCacheManager(name: string, manager: CacheManager): void {
+    if (registry.has(name)) {
+        throw new Error(`A cache manager named "${name}" is already registered.`);
+    }
+
+    registry.set(name, manager);
+}
+
+/**
+ * Gets a cache manager by name. If no manager is registered with the name, a manager is created and registered.
+ * The created manager shares the storage of the default @see cacheManager, with the name as its namespace,
+ * so its items are isolated from other managers.
+ * @param name The name of the manager.
+ * @returns The manager with the name.
+ */
+export function getCacheManager(name: string): CacheManager {
+    let manager = registry.get(name);
+    if (!manager) {
+        manager = new CacheManager(cacheManager.storage, { namespace: name });
+        registry.set(name, manager);
+    }
+
+    return manager;
+}
@@ -0,0 +1,18 @@
+import { ICacheRecord } from "./cache-record";
+
+/** Converts cache records to text and back, so storages can save them, e.g. @see JsonCacheSerializer. */
+export interface ICacheSerializer {
+    /**
+     * Converts a record to text.
+     * @param record The record of an item.
+     * @returns The text of the record, or undefined if the record cannot be serialized.
+     */
+    serialize(record: ICacheRecord): string | undefined;
+
+    /**
+     * Converts text back to a record.
+     * @param text The text of a record.
+     * @returns The record, or undefined if the text is invalid or was written in an incompatible format.
+     */
+    deserialize(text: string): ICacheRecord | undefined;
+}
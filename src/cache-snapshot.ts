@@ -0,0 +1,14 @@
+/** Cached items exported by @see CacheManager.exportSnapshot, e.g. to warm up the cache of a new deployment. */
+export interface ICacheSnapshot {
+    /** The version of the format of snapshots. */
+    version: number;
+
+    /** The time when the snapshot was exported, as an ISO string. */
+    created: string;
+
+    /** Items serialized by the serializer of the cache manager. @see ICacheManagerOptions.serializer */
+    records: string[];
+
+    /** The number of items that could not be serialized, e.g. because they contain functions. */
+    skipped: number;
+}
@@ -0,0 +1,94 @@
+/** Counts cache events. */
+export interface ICacheCounters {
+    /** The number of times an item was found in the cache. */
+    hits: number;
+
+    /** The number of times no usable item was found in the cache. */
+    misses: number;
+
+    /** The number of items saved to the cache. */
+    sets: number;
+
+    /** The number of items removed from the cache. */
+    removals: number;
+
+    /** The number of expired items removed from the cache. */
+    expirations: number;
+
+    /** The number of items evicted by the storage. */
+    evictions: number;
+
+    /** The number of times a wrapped function failed to load a value. */
+    loadErrors: number;
+
+    /** The ratio of hits to all reads, or 0 if there is no read. */
+    hitRatio: number;
+}
+
+/** Counts cache events of items with the same policy key. */
+export interface IPolicyCounters extends ICacheCounters {
+    /** The policy key, e.g. [MyClass, "myMethod"] for a decorated method. */
+    policyKey: unknown;
+}
+
+/** A snapshot of cache statistics. */
+export interface ICacheStats extends ICacheCounters {
+    /** Statistics of items with policy keys, one entry per policy key. */
+    policies: IPolicyCounters[];
+}
+
+/** The name of a counter. */
+export type CounterName = Exclude<keyof ICacheCounters, "hitRatio">;
+
+/** Records cache statistics, in total and per policy key. */
+export class CacheStatsRecorder {
+    private _total = createCounters();
+
+    private _policies = new Map<string, IPolicyCounters>();
+
+    /**
+     * Increments a counter.
+     * @param name The name of the counter.
+     * @param policyKey The policy key of the item, if any.
+     * @param policyHash The hash of the policy key.
+     */
+    public increment(name: CounterName, policyKey: unknown, policyHash: string | undefined): void {
+        this._total[name]++;
+        if (policyHash !== undefined) {
+            let counters = this._policies.get(policyHash);
+            if (!counters) {
+                counters = { policyKey, ...createCounters() };
+                this._policies.set(policyHash, counters);
+            }
+
+            counters[name]++;
+        }
+    }
+
+    /**
+     * Gets a snapshot of the statistics.
+     */
+    public snapshot(): ICacheStats {
+        return {
+            ...withHitRatio(this._total),
+            policies: [...this._policies.values()].map(withHitRatio)
+        };
+    }
+
+    /**
+     * Resets all counters.
+     */
+    public reset(): void {
+        this._total = createCounters();
+        this._policies.clear();
+    }
+}
+
+function createCounters(): ICacheCounters {
+    return { hits: 0, misses: 0, sets: 0, removals: 0, expirations: 0, evictions: 0, loadErrors: 0, hitRatio: 0 };
+}
+
+function withHitRatio<T extends ICacheCounters>(counters: T): T {
+    const reads = counters.hits + counters.misses;
+    return { ...counters, hitRatio: reads ? counters.hits / reads : 0 };
+}
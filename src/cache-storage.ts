@@ -1,4 +1,12 @@
 import { ICacheItem } from "./cache-item";
+import { ICacheSerializer } from "./cache-serializer";
+
+/**
+ * A function that is called when a storage evicts an item on its own, e.g. when the storage is full.
+ * @param hash The hash of the evicted item.
+ * @param cacheItem The evicted item.
+ */
+export type EvictionListener = (hash: string, cacheItem: ICacheItem) => void;
 
 /** Provides storage for cache items. */
 export interface ICacheStorage {
@@ -34,4 +42,63 @@ export interface ICacheStorage {
      * Clears the cache, removes all items.
      */
     clear(): void;
+
+    /**
+     * Gets all items in the cache.
+     * @returns Pairs of hashes and cache items.
+     */
+    entries(): [string, ICacheItem][];
+
+    /**
+     * Gets multiple items from the cache at once.
+     * Storages that can read items in bulk (e.g. in one round trip) implement it; otherwise items are read one by one.
+     * @param hashes Unique hashes to identify cache items.
+     * @returns Cache items in the same order as the hashes, with undefined for missing items.
+     */
+    getMany?(hashes: string[]): (ICacheItem | undefined)[];
+
+    /**
+     * Saves multiple items to the cache at once.
+     * Storages that can write items in bulk implement it; otherwise items are saved one by one.
+     * @param entries Pairs of hashes and cache items.
+     */
+    setMany?(entries: [string, ICacheItem][]): void;
+
+    /**
+     * Removes multiple items from the cache at once.
+     * Storages that can remove items in bulk implement it; otherwise items are removed one by one.
+     * @param hashes Unique hashes to identify cache items.
+     * @returns The removed items in the same order as the hashes, with undefined for missing items.
+     */
+    removeMany?(hashes: string[]): (ICacheItem | undefined)[];
+
+    /**
+     * Gets an item without using it, e.g. to check whether it exists, so it does not affect which items are evicted.
+     * Storages that track how items are used (e.g. for eviction) implement it; otherwise items are read by @see get.
+     * @param hash A unique hash to identify a cache item.
+     * @returns A cache item if it exists; otherwise, undefined.
+     */
+    peek?(hash: string): ICacheItem | undefined;
+
+    /**
+     * Saves the access time of an item that uses sliding expiration, after the item was read.
+     * Storages that return copies of items (e.g. from disk) implement it to persist the access time.
+     * @param hash A unique hash to identify a cache item.
+     * @param cacheItem The item that was read, with an updated access time.
+     */
+    touch?(hash: string, cacheItem: ICacheItem): void;
+
+    /**
+     * Registers a listener that is called when the storage evicts an item on its own.
+     * Storages that never evict items do not need to implement it.
+     * @param listener The listener to register.
+     */
+    addEvictionListener?(listener: EvictionListener): void;
+
+    /**
+     * Replaces the serializer of a storage which saves items as text.
+     * Storages that keep items as they are (e.g. in memory) do not need to implement it.
+     * @param serializer The serializer to use.
+     */
+    useSerializer?(serializer: ICacheSerializer): void;
 }
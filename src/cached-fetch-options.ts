@@ -0,0 +1,26 @@
+import { CacheManager } from "./cache-manager";
+import { FetchFunction } from "./fetch-response";
+
+/** Options of a cached fetch function, @see createCachedFetch. */
+export interface ICachedFetchOptions {
+    /** The cache manager that saves responses. The default cache manager is used if omitted. */
+    manager?: CacheManager;
+
+    /** The function that sends requests. The global `fetch` function is used if omitted. */
+    fetch?: FetchFunction;
+
+    /** A context of cached responses, so they can be removed together, @see CacheManager.removeContext. */
+    context?: string;
+
+    /**
+     * How long, in milliseconds, an expired response is kept so that it can be revalidated with a conditional
+     * request, if it has an `ETag` or a `Last-Modified` header. The default is one day.
+     */
+    revalidationWindow?: number;
+
+    /**
+     * How long, in milliseconds, a response without `max-age` or `s-maxage` directives is cached.
+     * Such responses are not cached if omitted, unless they can be revalidated.
+     */
+    defaultMaxAge?: number;
+}
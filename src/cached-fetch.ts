@@ -0,0 +1,242 @@
+import { CacheManager, cacheManager } from "./cache-manager";
+import { ICacheOptions } from "./cache-options";
+import { ICachedFetchOptions } from "./cached-fetch-options";
+import { CachedResponse } from "./cached-response";
+import { ICachedResponseData } from "./cached-response-data";
+import { IFetchRequestInit } from "./fetch-request-init";
+import { FetchFunction, IFetchResponse } from "./fetch-response";
+
+/** The methods whose responses are cached. */
+const cacheableMethods = ["GET", "HEAD"];
+
+/** How long an expired response with validators is kept by default, @see ICachedFetchOptions.revalidationWindow. */
+const defaultRevalidationWindow = 24 * 60 * 60 * 1000;
+
+/** Headers of a 304 response which do not describe the cached response. */
+const unmergedHeaders = ["content-length", "content-encoding", "transfer-encoding"];
+
+/**
+ * A fetch function which caches responses, @see createCachedFetch.
+ * @param url The URL of the request.
+ * @param init Options of the request.
+ * @returns A promise that resolves to a buffered response.
+ */
+export type CachedFetchFunction = (url: string, init?: IFetchRequestInit) => Promise<CachedResponse>;
+
+/**
+ * Parses the directives of a `Cache-Control` header.
+ * @param value The value of the header.
+ * @returns The values of the directives by their lower case names. Directives without values map to an empty string.
+ */
+function parseCacheControl(value: string | null | undefined): Map<string, string> {
+    const directives = new Map<string, string>();
+    for (const directive of (value || "").split(",")) {
+        const [name = "", argument = ""] = directive.split("=", 2).map(part => part.trim());
+        if (name) {
+            directives.set(name.toLowerCase(), argument.replace(/^"|"$/g, ""));
+        }
+    }
+
+    return directives;
+}
+
+/**
+ * Gets the number of seconds of a `Cache-Control` directive.
+ * @param directives The parsed directives.
+ * @param name The name of the directive.
+ * @returns The number of seconds, or undefined if the directive is missing or invalid.
+ */
+function getSeconds(directives: Map<string, string>, name: string): number | undefined {
+    const seconds = Number.parseInt(directives.get(name) ?? "", 10);
+    return Number.isNaN(seconds) ? undefined : Math.max(seconds, 0);
+}
+
+/**
+ * Gets the headers of a request by their lower case names.
+ * @param init Options of the request.
+ */
+function getRequestHeaders(init: IFetchRequestInit): Map<string, string> {
+    return new Map(Object.entries(init.headers || {}).map(([name, value]) => [name.toLowerCase(), value]));
+}
+
+/**
+ * Reads a response into a buffered response which can be cached.
+ * @param response The response of the fetch function.
+ * @param url The URL of the request, used if the response does not tell its URL.
+ */
+async function bufferResponse(response: IFetchResponse, url: string): Promise<ICachedResponseData> {
+    const headers: [string, string][] = [];
+    response.headers.forEach((value, name) => headers.push([name.toLowerCase(), value]));
+    return {
+        url: response.url || url,
+        status: response.status,
+        statusText: response.statusText,
+        headers,
+        body: await response.arrayBuffer()
+    };
+}
+
+/**
+ * Updates the headers of a cached response with the headers of a 304 response, e.g. a new `Cache-Control` header.
+ * @param data The cached response.
+ * @param response The 304 response.
+ * @returns A copy of the cached response with updated headers.
+ */
+function mergeHeaders(data: ICachedResponseData, response: IFetchResponse): ICachedResponseData {
+    const headers = new Map(data.headers);
+    // The age of the cached response was already subtracted, and a 304 response without an Age header is fresh
+    headers.delete("age");
+    response.headers.forEach((value, name) => {
+        if (!unmergedHeaders.includes(name.toLowerCase())) {
+            headers.set(name.toLowerCase(), value);
+        }
+    });
+
+    const merged: ICachedResponseData = { ...data, headers: [...headers] };
+    delete merged.revalidate;
+    return merged;
+}
+
+/**
+ * Adds the validators of a cached response to a request, to make it conditional.
+ * @param init Options of the request.
+ * @param data The cached response.
+ * @returns Options of the conditional request, or undefined if the cached response has no validators.
+ */
+function getConditionalInit(init: IFetchRequestInit, data: ICachedResponseData): IFetchRequestInit | undefined {
+    const headers = new Map(data.headers);
+    const etag = headers.get("etag");
+    const lastModified = headers.get("last-modified");
+    if (etag === undefined && lastModified === undefined) {
+        return undefined;
+    }
+
+    const conditions: Record<string, string> = {};
+    if (etag !== undefined) {
+        conditions["If-None-Match"] = etag;
+    }
+
+    if (lastModified !== undefined) {
+        conditions["If-Modified-Since"] = lastModified;
+    }
+
+    return { ...init, headers: { ...init.headers, ...conditions } };
+}
+
+/** Gets the global fetch function, which is missing in some environments, e.g. older versions of Node.js. */
+function getGlobalFetch(): FetchFunction {
+    const { fetch } = globalThis as unknown as { fetch?: FetchFunction };
+    if (!fetch) {
+        throw new TypeError("fetch is not available. Set the fetch option of the cached fetch function.");
+    }
+
+    return fetch;
+}
+
+/**
+ * Creates a fetch function which caches responses of GET and HEAD requests according to their `Cache-Control` headers.
+ * Responses are cached by the method, the URL, and the request headers named by their `Vary` headers.
+ * Freshness is determined by `s-maxage` or `max-age`, minus the `Age` header. Responses with `no-store`
+ * are not cached, and responses with `no-cache` are revalidated before they are used.
+ * When a response with an `ETag` or a `Last-Modified` header expires, a conditional request is sent,
+ * and the cached response is extended if the server responds with 304 Not Modified.
+ * Bodies of all responses are buffered, so they can be read more than once.
+ * @param options Options of the cached fetch function.
+ * @returns A cached fetch function.
+ */
+export function createCachedFetch(options: ICachedFetchOptions = {}): CachedFetchFunction {
+    const { context, defaultMaxAge, revalidationWindow = defaultRevalidationWindow } = options;
+
+    // The names of the request headers which responses vary by, learned from the Vary headers of responses
+    const varyNames = new Map<string, string[]>();
+
+    const getKey = (method: string, url: string, requestHeaders: Map<string, string>): unknown[] => {
+        const names = varyNames.get(`${method} ${url}`) || [];
+        return ["fetch", method, url, names.map(name => [name, requestHeaders.get(name) ?? null])];
+    };
+
+    const save = async (
+        manager: CacheManager,
+        method: string,
+        url: string,
+        requestHeaders: Map<string, string>,
+        key: unknown,
+        data: ICachedResponseData): Promise<void> => {
+
+        const headers = new Map(data.headers);
+        const vary = (headers.get("vary") || "").split(",").map(name => name.trim().toLowerCase()).filter(name => name);
+        const directives = parseCacheControl(headers.get("cache-control"));
+        if (data.status !== 200 || directives.has("no-store") || vary.includes("*")) {
+            await manager.removeAsync(key);
+            return;
+        }
+
+        const sharedMaxAge = getSeconds(directives, "s-maxage");
+        const maxAge = sharedMaxAge !== undefined ? sharedMaxAge : getSeconds(directives, "max-age");
+        const age = Number.parseInt(headers.get("age") || "0", 10) || 0;
+        let freshness = maxAge !== undefined ? Math.max(maxAge - age, 0) * 1000 : defaultMaxAge;
+        const validated = headers.has("etag") || headers.has("last-modified");
+        if (directives.has("no-cache")) {
+            freshness = 0;
+        }
+
+        if (!freshness) {
+            if (!validated) {
+                await manager.removeAsync(key);
+                return;
+            }
+
+            // The response can only be used after the server confirms that it has not changed
+            data = { ...data, revalidate: true };
+            freshness = revalidationWindow;
+        }
+
+        varyNames.set(`${method} ${url}`, vary.sort());
+        const cacheOptions: ICacheOptions = {
+            policy: validated && !data.revalidate
+                ? { maxAge: freshness, staleWhileRevalidate: revalidationWindow }
+                : { maxAge: freshness }
+        };
+        if (context !== undefined) {
+            cacheOptions.context = context;
+        }
+
+        await manager.setAsync(getKey(method, url, requestHeaders), data, undefined, undefined, cacheOptions);
+    };
+
+    return async (url, init = {}) => {
+        const manager = options.manager || cacheManager;
+        const send = options.fetch || getGlobalFetch();
+        const method = (init.method || "GET").toUpperCase();
+        const requestHeaders = getRequestHeaders(init);
+        const requestDirectives = parseCacheControl(requestHeaders.get("cache-control"));
+        if (!cacheableMethods.includes(method) || requestDirectives.has("no-store")) {
+            return new CachedResponse(await bufferResponse(await send(url, init), url), false);
+        }
+
+        const key = getKey(method, url, requestHeaders);
+        const fresh = requestDirectives.has("no-cache") ? undefined : await manager.getCacheItemAsync(key);
+        const freshData = fresh && fresh.value as ICachedResponseData;
+        if (freshData && !freshData.revalidate) {
+            return new CachedResponse(freshData, true);
+        }
+
+        // An expired response is kept while it can be revalidated
+        const cacheItem = fresh || await manager.getCacheItemAsync(key, true);
+        const cached = cacheItem && cacheItem.value as ICachedResponseData;
+        const conditionalInit = cached && getConditionalInit(init, cached);
+        const response = await send(url, conditionalInit || init);
+        if (cached && conditionalInit && response.status === 304) {
+            const data = mergeHeaders(cached, response);
+            await save(manager, method, url, requestHeaders, key, data);
+            return new CachedResponse(data, true);
+        }
+
+        const data = await bufferResponse(response, url);
+        await save(manager, method, url, requestHeaders, key, data);
+        return new CachedResponse(data, false);
+    };
+}
+
+/** A fetch function which caches responses with the default cache manager, @see createCachedFetch. */
+export const cachedFetch = createCachedFetch();
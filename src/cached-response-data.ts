@@ -0,0 +1,20 @@
+/** A buffered HTTP response, as it is saved by @see cachedFetch. */
+export interface ICachedResponseData {
+    /** The URL of the response. */
+    url: string;
+
+    /** The status code of the response. */
+    status: number;
+
+    /** The status message of the response. */
+    statusText: string;
+
+    /** The headers of the response, with lower case names. */
+    headers: [string, string][];
+
+    /** The body of the response. */
+    body: ArrayBuffer;
+
+    /** Whether the response must be revalidated before it is used, e.g. because of `Cache-Control: no-cache`. */
+    revalidate?: boolean;
+}
@@ -0,0 +1,74 @@
+import { ICachedResponseData } from "./cached-response-data";
+
+/**
+ * An HTTP response returned by @see cachedFetch. Its body is buffered, so it can be read more than once.
+ */
+export class CachedResponse {
+    /** The URL of the response. */
+    public readonly url: string;
+
+    /** The status code of the response. */
+    public readonly status: number;
+
+    /** The status message of the response. */
+    public readonly statusText: string;
+
+    /** The headers of the response, by their lower case names. */
+    public readonly headers: Map<string, string>;
+
+    private _body: ArrayBuffer;
+
+    /**
+     * Creates a cached response.
+     * @param data The buffered response.
+     * @param fromCache Whether the response was read from the cache, including responses revalidated by the server.
+     */
+    constructor(data: ICachedResponseData, public readonly fromCache: boolean) {
+        this.url = data.url;
+        this.status = data.status;
+        this.statusText = data.statusText;
+        this.headers = new Map(data.headers);
+        this._body = data.body;
+    }
+
+    /** Whether the status code is successful, i.e. in the range 200-299. */
+    public get ok(): boolean {
+        return this.status >= 200 && this.status < 300;
+    }
+
+    /**
+     * Reads the body as binary data.
+     * @returns A promise that resolves to a copy of the body.
+     */
+    public async arrayBuffer(): Promise<ArrayBuffer> {
+        return this._body.slice(0);
+    }
+
+    /**
+     * Reads the body as UTF-8 text.
+     * @returns A promise that resolves to the text of the body.
+     */
+    public async text(): Promise<string> {
+        return new TextDecoder().decode(this._body);
+    }
+
+    /**
+     * Reads the body as JSON.
+     * @template T The type of the JSON value, which is not checked.
+     * @returns A promise that resolves to the parsed body.
+     */
+    public async json<T = unknown>(): Promise<T> {
+        return JSON.parse(await this.text()) as T;
+    }
+
+    /** Creates a copy of the response. */
+    public clone(): CachedResponse {
+        return new CachedResponse({
+            url: this.url,
+            status: this.status,
+            statusText: this.statusText,
+            headers: [...this.headers],
+            body: this._body
+        }, this.fromCache);
+    }
+}
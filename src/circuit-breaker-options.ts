@@ -0,0 +1,11 @@
+/** Options of a circuit breaker, which stops calling a failing origin for a while, @see ICachePolicy.circuitBreaker. */
+export interface ICircuitBreakerOptions {
+    /** The number of consecutive failures that open the circuit. The default is 5. */
+    failureThreshold?: number;
+
+    /**
+     * How long, in milliseconds, the circuit stays open. Then a single call is allowed to test the origin:
+     * the circuit is closed if it succeeds, or opened again if it fails.
+     */
+    coolDown: number;
+}
@@ -0,0 +1,79 @@
+import { ICircuitBreakerOptions } from "./circuit-breaker-options";
+
+/**
+ * The state of a circuit breaker. Calls are allowed while it is closed. While it is open, calls fail without
+ * calling the origin. After the cool-down, it is half-open, and a single call tests whether the origin has recovered.
+ */
+export type CircuitState = "closed" | "open" | "halfOpen";
+
+/** The default number of consecutive failures that open a circuit. */
+const defaultFailureThreshold = 5;
+
+/** Tracks failures of calls to an origin, and stops calling it after too many consecutive failures. */
+export class CircuitBreaker {
+    private _failures = 0;
+
+    /** The time when the circuit was opened, or undefined if it is closed. */
+    private _opened: Date | undefined;
+
+    /** Whether a call is testing the origin while the circuit is half-open. */
+    private _probing = false;
+
+    /**
+     * Creates a circuit breaker, which is closed at first.
+     * @param options Options of the circuit breaker.
+     */
+    constructor(public readonly options: ICircuitBreakerOptions) { }
+
+    /**
+     * Gets the state of the circuit.
+     * @param now The current time.
+     */
+    public getState(now: Date): CircuitState {
+        if (!this._opened) {
+            return "closed";
+        }
+
+        return now.valueOf() - this._opened.valueOf() < this.options.coolDown ? "open" : "halfOpen";
+    }
+
+    /**
+     * Determines whether the origin can be called. While the circuit is half-open, only the first call is allowed
+     * until its result is reported.
+     * @param now The current time.
+     */
+    public tryCall(now: Date): boolean {
+        const state = this.getState(now);
+        if (state === "closed") {
+            return true;
+        }
+
+        if (state === "open" || this._probing) {
+            return false;
+        }
+
+        this._probing = true;
+        return true;
+    }
+
+    /** Reports a successful call, which closes the circuit. */
+    public succeed(): void {
+        this._failures = 0;
+        this._opened = undefined;
+        this._probing = false;
+    }
+
+    /**
+     * Reports a failed call. The circuit is opened after too many consecutive failures,
+     * or opened again if the call was testing the origin.
+     * @param now The current time.
+     */
+    public fail(now: Date): void {
+        this._failures++;
+        const { failureThreshold = defaultFailureThreshold } = this.options;
+        if (this._opened || this._failures >= failureThreshold) {
+            this._opened = now;
+            this._probing = false;
+        }
+    }
+}
@@ -0,0 +1,13 @@
+/**
+ * Tells the current time to a cache manager, e.g. to calculate ages of items.
+ * Tests can control the time with a manual clock instead of waiting, @see ManualClock of "managed-cache/testing".
+ */
+export interface IClock {
+    /** Gets the current time. */
+    now(): Date;
+}
+
+/** A clock which tells the time of the system. */
+export const systemClock: IClock = {
+    now: () => new Date()
+};
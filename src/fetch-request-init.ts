@@ -0,0 +1,14 @@
+/**
+ * Options of a request sent by @see cachedFetch. It is a subset of `RequestInit` of the Fetch API,
+ * so that header values can be read to find cached responses that vary by request headers.
+ */
+export interface IFetchRequestInit {
+    /** The method of the request, e.g. "GET". Only GET and HEAD responses are cached. */
+    method?: string;
+
+    /** The headers of the request. */
+    headers?: Record<string, string>;
+
+    /** The body of the request. */
+    body?: string;
+}
@@ -0,0 +1,42 @@
+import { IFetchRequestInit } from "./fetch-request-init";
+
+/**
+ * A response of a fetch function. Only the members used by @see cachedFetch are declared,
+ * so that `Response` of the Fetch API, or a response of another HTTP client, can be used.
+ */
+export interface IFetchResponse {
+    /** The status code of the response. */
+    status: number;
+
+    /** The status message of the response. */
+    statusText: string;
+
+    /** The final URL of the response, after redirects. */
+    url?: string;
+
+    /** The headers of the response. */
+    headers: {
+        /**
+         * Gets a header value.
+         * @param name The case-insensitive name of the header.
+         * @returns The value of the header if it exists; otherwise, null.
+         */
+        get(name: string): string | null;
+
+        /**
+         * Calls a function for each header.
+         * @param callback A function that takes the value and the name of a header.
+         */
+        forEach(callback: (value: string, name: string) => void): void;
+    };
+
+    /** Reads the whole body of the response. */
+    arrayBuffer(): Promise<ArrayBuffer>;
+}
+
+/**
+ * A function that sends HTTP requests, e.g. the global `fetch` function.
+ * @param url The URL of the request.
+ * @param init Options of the request.
+ */
+export type FetchFunction = (url: string, init?: IFetchRequestInit) => Promise<IFetchResponse>;
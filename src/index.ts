@@ -1,6 +1,51 @@
+export * from "./async-cache-storage";
+export * from "./broadcast-channel";
+export * from "./broadcast-channel-transport";
+export * from "./cache-compression";
+export * from "./cache-conditions";
 export * from "./cache-decorator";
+export * from "./cache-decorator-options";
+export * from "./cache-events";
+export * from "./cache-invalidation";
+export * from "./cache-evict-options";
 export * from "./cache-item";
+export * from "./cache-item-info";
 export * from "./cache-manager";
+export * from "./cache-manager-options";
+export * from "./cache-mode";
 export * from "./cache-options";
 export * from "./cache-policy";
+export * from "./cache-policy-config";
+export * from "./cache-policy-rule";
+export * from "./cache-put-options";
+export * from "./cache-registry";
+export * from "./cache-record";
+export * from "./cache-region";
+export * from "./cache-region-options";
+export * from "./cache-serializer";
+export * from "./cache-snapshot";
+export * from "./cache-stats";
 export * from "./cache-storage";
+export * from "./cached-fetch";
+export * from "./cached-fetch-options";
+export * from "./cached-response";
+export * from "./cached-response-data";
+export * from "./circuit-breaker";
+export * from "./circuit-breaker-options";
+export * from "./clock";
+export * from "./fetch-request-init";
+export * from "./fetch-response";
+export * from "./indexed-db-cache";
+export * from "./indexed-db-cache-options";
+export * from "./invalidation-message";
+export * from "./invalidation-transport";
+export * from "./json-cache-serializer";
+export * from "./json-cache-serializer-options";
+export * from "./key-hasher";
+export * from "./memory-cache";
+export * from "./memory-cache-options";
+export * from "./method-decorator-context";
+export * from "./persistent-cache";
+export * from "./tiered-cache";
+export * from "./tiered-cache-options";
+export * from "./web-storage-cache";
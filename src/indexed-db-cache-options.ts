@@ -0,0 +1,19 @@
+import { ICacheSerializer } from "./cache-serializer";
+
+/** Options of an IndexedDB cache. */
+export interface IIndexedDbCacheOptions {
+    /** The name of the database. Defaults to "managed-cache". */
+    databaseName?: string;
+
+    /** A namespace of items, so multiple caches can share the same database. Defaults to "managed-cache". */
+    namespace?: string;
+
+    /** The IndexedDB factory. Defaults to the global indexedDB. */
+    indexedDB?: IDBFactory;
+
+    /**
+     * Converts items to text and back. If omitted, items are saved as structured clones,
+     * which support Date, Map, Set, BigInt and typed arrays as well.
+     */
+    serializer?: ICacheSerializer;
+}
@@ -0,0 +1,345 @@
+import { IAsyncCacheStorage } from "./async-cache-storage";
+import { ICacheItem } from "./cache-item";
+import { ICacheRecord } from "./cache-record";
+import { ICacheSerializer } from "./cache-serializer";
+import { IIndexedDbCacheOptions } from "./indexed-db-cache-options";
+import { PendingItems, reviveRecord } from "./pending-items";
+
+/** A cache item as it is saved in the database. */
+interface IIndexedDbRecord {
+    /** The key of the record, which consists of the namespace and the hash. */
+    key: string;
+
+    namespace: string;
+
+    hash: string;
+
+    /** Whether the value was a promise, which is saved after it is settled. */
+    promise?: boolean;
+
+    /** Whether the promise was rejected, @see ICacheRecord.rejected. */
+    rejected?: boolean;
+
+    /** The item as a structured clone, if no serializer is used. */
+    item?: Omit<ICacheItem, "thisParameter" | "parameters">;
+
+    /** The serialized record, if a serializer is used. */
+    text?: string;
+}
+
+/** The name of the object store of items. */
+const storeName = "items";
+
+/** The name of the index of namespaces. */
+const namespaceIndex = "namespace";
+
+/**
+ * An asynchronous cache storage which saves items to IndexedDB, so cached values survive page reloads.
+ * Values are saved as follows:
+ * - A promise is kept in memory until it is resolved. Then its resolved value is saved, and it is restored as
+ *   a resolved promise. A rejected promise is only saved if its manager keeps it, e.g. for its error max age.
+ * - Values are saved as structured clones, so class instances are restored as plain objects.
+ *   A value that cannot be cloned (e.g. a function) is not saved. If a serializer is used, items are saved as texts
+ *   instead, e.g. to compress them, or to ignore items saved by a previous version.
+ * - How a value was loaded (@see ICacheItem.thisParameter and @see ICacheItem.parameters) is not saved.
+ */
+export class IndexedDbCache implements IAsyncCacheStorage {
+    public readonly databaseName: string;
+
+    public readonly namespace: string;
+
+    private _indexedDB: IDBFactory;
+
+    private _serializer: ICacheSerializer | undefined;
+
+    private _database: Promise<IDBDatabase> | undefined;
+
+    /** Items with promise values that have not been settled yet. */
+    private _pending = new PendingItems();
+
+    /**
+     * Creates an IndexedDB cache. The database is opened when it is used for the first time.
+     * @param options Options of the IndexedDB cache.
+     */
+    constructor(options: IIndexedDbCacheOptions = {}) {
+        this.databaseName = options.databaseName || "managed-cache";
+        this.namespace = options.namespace || "managed-cache";
+        this._indexedDB = options.indexedDB || indexedDB;
+        this._serializer = options.serializer;
+    }
+
+    /** @inheritdoc */
+    public async has(hash: string): Promise<boolean> {
+        return this._pending.has(hash) || !!await this.request("readonly", store => store.count(this.getKey(hash)));
+    }
+
+    /** @inheritdoc */
+    public async get(hash: string): Promise<ICacheItem | undefined> {
+        const pending = this._pending.get(hash);
+        if (pending) {
+            return pending;
+        }
+
+        const record: IIndexedDbRecord | undefined = await this.request("readonly", store => store.get(this.getKey(hash)));
+        return record && this.revive(record);
+    }
+
+    /** @inheritdoc */
+    public async set(hash: string, cacheItem: ICacheItem): Promise<void> {
+        this._pending.delete(hash);
+        const { value } = cacheItem;
+        if (!(value instanceof Promise)) {
+            return this.write(hash, cacheItem);
+        }
+
+        // Remove the previous value, which should no longer be used
+        await this.request("readwrite", store => store.delete(this.getKey(hash)));
+        this._pending.track(hash, cacheItem, (settled, rejected) => {
+            this.write(hash, settled, true, rejected).catch(() => undefined);
+        });
+    }
+
+    /** @inheritdoc */
+    public async remove(hash: string): Promise<ICacheItem | undefined> {
+        const pending = this._pending.get(hash);
+        if (pending) {
+            this._pending.delete(hash);
+            return pending;
+        }
+
+        const key = this.getKey(hash);
+        const record: IIndexedDbRecord | undefined = await this.request("readwrite", store => {
+            const request = store.get(key);
+            store.delete(key);
+            return request;
+        });
+        return record && this.revive(record);
+    }
+
+    /** @inheritdoc */
+    public async clear(): Promise<void> {
+        this._pending.clear();
+        await this.request("readwrite", store => {
+            const request = store.index(namespaceIndex).openKeyCursor(this.namespace);
+            request.onsuccess = () => {
+                const cursor = request.result;
+                if (cursor) {
+                    store.delete(cursor.primaryKey);
+                    cursor.continue();
+                }
+            };
+            return request;
+        });
+    }
+
+    /** @inheritdoc */
+    public async entries(): Promise<[string, ICacheItem][]> {
+        const records: IIndexedDbRecord[] = await this.request(
+            "readonly",
+            store => store.index(namespaceIndex).getAll(this.namespace));
+        const entries = [...this._pending];
+        for (const record of records) {
+            const item = this._pending.has(record.hash) ? undefined : this.revive(record);
+            if (item) {
+                entries.push([record.hash, item]);
+            }
+        }
+
+        return entries;
+    }
+
+    /** @inheritdoc */
+    public async touch(hash: string, cacheItem: ICacheItem): Promise<void> {
+        if (!this._pending.has(hash) && await this.has(hash)) {
+            await this.write(hash, cacheItem);
+        }
+    }
+
+    /** @inheritdoc */
+    public async getMany(hashes: string[]): Promise<(ICacheItem | undefined)[]> {
+        const records: (IIndexedDbRecord | undefined)[] = await this.requestMany(
+            "readonly",
+            store => hashes.map(hash => store.get(this.getKey(hash))));
+        return hashes.map((hash, i) => {
+            const record = records[i];
+            return this._pending.get(hash) || (record && this.revive(record));
+        });
+    }
+
+    /**
+     * Saves multiple items in one transaction. Promises are saved one by one once they are resolved.
+     * @param entries Pairs of hashes and cache items.
+     */
+    public async setMany(entries: [string, ICacheItem][]): Promise<void> {
+        const writes: Promise<void>[] = [];
+        const batch: [string, ICacheItem, IIndexedDbRecord][] = [];
+        for (const [hash, cacheItem] of entries) {
+            this._pending.delete(hash);
+            const record = cacheItem.value instanceof Promise ? undefined : this.createRecord(hash, cacheItem);
+            if (record) {
+                batch.push([hash, cacheItem, record]);
+            } else {
+                writes.push(this.set(hash, cacheItem));
+            }
+        }
+
+        try {
+            await this.requestMany("readwrite", store => batch.map(([, , record]) => store.put(record)));
+        } catch (error) {
+            if ((error as Error).name !== "DataCloneError") {
+                throw error;
+            }
+
+            // An item cannot be cloned, so save items one by one, which skips only the items that cannot be cloned
+            writes.push(...batch.map(([hash, cacheItem]) => this.write(hash, cacheItem)));
+        }
+
+        await Promise.all(writes);
+    }
+
+    /** @inheritdoc */
+    public async removeMany(hashes: string[]): Promise<(ICacheItem | undefined)[]> {
+        const pending = hashes.map(hash => this._pending.get(hash));
+        hashes.forEach(hash => this._pending.delete(hash));
+        const records: (IIndexedDbRecord | undefined)[] = await this.requestMany("readwrite", store => hashes.map(hash => {
+            const key = this.getKey(hash);
+            const request = store.get(key);
+            store.delete(key);
+            return request;
+        }));
+        return hashes.map((hash, i) => {
+            const record = records[i];
+            return pending[i] || (record && this.revive(record));
+        });
+    }
+
+    /** @inheritdoc */
+    public useSerializer(serializer: ICacheSerializer): void {
+        this._serializer = serializer;
+    }
+
+    /**
+     * Writes an item to the database. If the value cannot be cloned or serialized, the existing item is deleted instead.
+     * @param hash A unique hash to identify a cache item.
+     * @param cacheItem The item to write.
+     * @param promise Whether the value was settled from a promise.
+     * @param rejected Whether the promise was rejected.
+     */
+    private async write(hash: string, cacheItem: ICacheItem, promise = false, rejected = false): Promise<void> {
+        const key = this.getKey(hash);
+        const record = this.createRecord(hash, cacheItem, promise, rejected);
+        if (!record) {
+            // The value cannot be saved, remove the previous value which should no longer be used
+            await this.request("readwrite", store => store.delete(key));
+            return;
+        }
+
+        try {
+            await this.request("readwrite", store => store.put(record));
+        } catch (error) {
+            if ((error as Error).name !== "DataCloneError") {
+                throw error;
+            }
+
+            // The value cannot be saved, remove the previous value which should no longer be used
+            await this.request("readwrite", store => store.delete(key));
+        }
+    }
+
+    /**
+     * Creates the record of an item in the database.
+     * @param hash A unique hash to identify a cache item.
+     * @param cacheItem The item to save.
+     * @param promise Whether the value was settled from a promise.
+     * @param rejected Whether the promise was rejected.
+     * @returns The record, or undefined if the item cannot be serialized.
+     */
+    private createRecord(hash: string, cacheItem: ICacheItem, promise = false, rejected = false): IIndexedDbRecord | undefined {
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { thisParameter, parameters, ...item } = cacheItem;
+        const cacheRecord: ICacheRecord = { hash, item };
+        if (promise) {
+            cacheRecord.promise = promise;
+        }
+
+        if (rejected) {
+            cacheRecord.rejected = rejected;
+        }
+
+        const key = this.getKey(hash);
+        if (!this._serializer) {
+            return { key, namespace: this.namespace, ...cacheRecord };
+        }
+
+        const text = this._serializer.serialize(cacheRecord);
+        return text === undefined ? undefined : { key, namespace: this.namespace, hash, text };
+    }
+
+    /**
+     * Restores an item from its record.
+     * @param record The record of an item.
+     * @returns The item, or undefined if it was serialized in an incompatible format.
+     */
+    private revive(record: IIndexedDbRecord): ICacheItem | undefined {
+        const cacheRecord = record.text === undefined
+            ? record as Partial<ICacheRecord>
+            : this._serializer && this._serializer.deserialize(record.text);
+        const item = cacheRecord && cacheRecord.item;
+        return item && reviveRecord({ ...cacheRecord, item });
+    }
+
+    /**
+     * Gets the key of an item in the database.
+     * @param hash A unique hash to identify a cache item.
+     */
+    private getKey(hash: string): string {
+        return `${this.namespace}:${hash}`;
+    }
+
+    /**
+     * Opens the database, and creates the object store if it does not exist.
+     */
+    private open(): Promise<IDBDatabase> {
+        if (!this._database) {
+            this._database = new Promise((resolve, reject) => {
+                const request = this._indexedDB.open(this.databaseName, 1);
+                request.onupgradeneeded = () => {
+                    const store = request.result.createObjectStore(storeName, { keyPath: "key" });
+                    store.createIndex(namespaceIndex, "namespace");
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+        }
+
+        return this._database;
+    }
+
+    /**
+     * Makes multiple requests in one transaction, and waits for the transaction to complete.
+     * @param mode The mode of the transaction.
+     * @param action A function that makes the requests.
+     * @returns A promise that resolves to the results of the requests.
+     */
+    private async requestMany<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>[]): Promise<T[]> {
+        const database = await this.open();
+        return new Promise<T[]>((resolve, reject) => {
+            const transaction = database.transaction(storeName, mode);
+            const requests = action(transaction.objectStore(storeName));
+            transaction.oncomplete = () => resolve(requests.map(request => request.result));
+            transaction.onerror = () => reject(transaction.error);
+            transaction.onabort = () => reject(transaction.error);
+        });
+    }
+
+    /**
+     * Makes a request in a transaction, and waits for the transaction to complete.
+     * @param mode The mode of the transaction.
+     * @param action A function that makes the request.
+     * @returns A promise that resolves to the result of the request.
+     */
+    private async request<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+        const [result] = await this.requestMany(mode, store => [action(store)]);
+        return result as T;
+    }
+}
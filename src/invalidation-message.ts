@@ -0,0 +1,23 @@
+/**
+ * A message that tells peers of a cache manager to remove items, e.g. managers of other processes
+ * with their own storages. @see IInvalidationTransport
+ */
+export interface IInvalidationMessage {
+    /** The ID of the cache manager that sent the message, @see CacheManager.origin. */
+    origin: string;
+
+    /** The namespace of the cache manager that sent the message. Managers of other namespaces ignore the message. */
+    namespace?: string;
+
+    /** What to remove, i.e. items by their hashes, contexts, contexts by a prefix, or all items. */
+    kind: "remove" | "removeContexts" | "removeContextPrefix" | "clear";
+
+    /** The hashes of the items to remove, for "remove". */
+    hashes?: string[];
+
+    /** The contexts to remove, for "removeContexts". */
+    contexts?: string[];
+
+    /** The prefix of the contexts to remove, for "removeContextPrefix". */
+    prefix?: string;
+}
@@ -0,0 +1,20 @@
+import { IInvalidationMessage } from "./invalidation-message";
+
+/**
+ * Delivers invalidation messages between cache managers, e.g. of multiple workers that have their own memory caches,
+ * so items removed by one manager are also removed by the others.
+ */
+export interface IInvalidationTransport {
+    /**
+     * Sends a message to all peers. The message may be delivered back to the sender, which ignores it.
+     * @param message The message to send.
+     */
+    publish(message: IInvalidationMessage): void;
+
+    /**
+     * Starts receiving messages from peers.
+     * @param listener A function that is called with each received message.
+     * @returns A function that stops receiving messages.
+     */
+    subscribe(listener: (message: IInvalidationMessage) => void): () => void;
+}
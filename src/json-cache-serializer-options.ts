@@ -0,0 +1,13 @@
+import { ICacheCompression } from "./cache-compression";
+
+/** Options of a JSON cache serializer. */
+export interface IJsonCacheSerializerOptions {
+    /**
+     * The version of cached data, which is saved with records. Records of other versions are ignored,
+     * so changing the version invalidates all previously saved items, e.g. after the shape of cached values changed.
+     */
+    version?: string | number;
+
+    /** Compresses serialized records. If omitted, records are not compressed. */
+    compression?: ICacheCompression;
+}
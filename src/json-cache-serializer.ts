@@ -0,0 +1,291 @@
+import { ICacheRecord } from "./cache-record";
+import { ICacheSerializer } from "./cache-serializer";
+import { IJsonCacheSerializerOptions } from "./json-cache-serializer-options";
+
+/** The version of the format of serialized records. Records of other formats are ignored. */
+const formatVersion = 1;
+
+/** The property of objects that encode values which are not supported by JSON. */
+const typeProperty = "$type";
+
+/** The names of typed arrays that can be serialized. */
+const typedArrayNames = [
+    "Int8Array", "Uint8Array", "Uint8ClampedArray", "Int16Array", "Uint16Array", "Int32Array", "Uint32Array",
+    "Float32Array", "Float64Array", "BigInt64Array", "BigUint64Array"
+];
+
+/** The envelope of a serialized record. */
+interface IEnvelope {
+    /** The version of the format, @see formatVersion. */
+    format: number;
+
+    /** The version of cached data, @see IJsonCacheSerializerOptions.version. */
+    version?: string | number;
+
+    /** The name of the compression, if the data is compressed. */
+    compression?: string;
+
+    /** The encoded record, or the compressed JSON of the encoded record. */
+    data: unknown;
+}
+
+/** A value which is not supported by JSON, encoded as a JSON object. */
+interface IEncodedValue {
+    $type: string;
+    value?: unknown;
+}
+
+/**
+ * Gets a global constructor by name, e.g. a typed array which may not be declared by the target library.
+ * @param name The name of the constructor.
+ */
+function getGlobal<T>(name: string): T | undefined {
+    return (globalThis as unknown as Record<string, T | undefined>)[name];
+}
+
+/**
+ * Finds the name of the typed array that a value is an instance of.
+ * @param value The value to check.
+ * @returns The name of the typed array, or undefined if the value is not a typed array.
+ */
+function getTypedArrayName(value: object): string | undefined {
+    return typedArrayNames.find(name => {
+        // eslint-disable-next-line @typescript-eslint/ban-types
+        const constructor = getGlobal<Function>(name);
+        return constructor !== undefined && value instanceof constructor;
+    });
+}
+
+/**
+ * A cache serializer which saves records as JSON. Besides values supported by JSON, it round-trips
+ * Date, Map, Set, BigInt, typed arrays, ArrayBuffer, undefined, NaN and infinite numbers.
+ * Errors (e.g. cached failures) are restored as Error objects with their names, messages and stacks.
+ * Class instances are restored as plain objects. Records with functions or symbols, or circular references,
+ * cannot be serialized. Records are saved in a versioned envelope, and are optionally compressed.
+ */
+export class JsonCacheSerializer implements ICacheSerializer {
+    /**
+     * Creates a JSON cache serializer.
+     * @param options Options of the serializer.
+     */
+    constructor(public readonly options: IJsonCacheSerializerOptions = {}) { }
+
+    /** @inheritdoc */
+    public serialize(record: ICacheRecord): string | undefined {
+        let data: unknown;
+        try {
+            const { key, policyKey, ...item } = record.item;
+            const encodedItem = this.encode(item, new Set()) as Record<string, unknown>;
+
+            // Keys and policy keys of decorated methods contain class constructors, which are dropped like JSON does
+            encodedItem["key"] = this.encode(key, new Set(), true);
+            if (policyKey !== undefined) {
+                encodedItem["policyKey"] = this.encode(policyKey, new Set(), true);
+            }
+            data = { ...record, item: encodedItem };
+        } catch {
+            // E.g. functions or circular references
+            return undefined;
+        }
+
+        const { version, compression } = this.options;
+        const envelope: IEnvelope = { format: formatVersion, data };
+        if (version !== undefined) {
+            envelope.version = version;
+        }
+
+        if (compression) {
+            envelope.compression = compression.name;
+            envelope.data = compression.compress(JSON.stringify(data));
+        }
+
+        return JSON.stringify(envelope);
+    }
+
+    /** @inheritdoc */
+    public deserialize(text: string): ICacheRecord | undefined {
+        try {
+            const envelope = JSON.parse(text) as IEnvelope;
+            const { version, compression } = this.options;
+            if (envelope.format !== formatVersion || envelope.version !== version
+                || envelope.compression !== (compression && compression.name)) {
+                // Written by another version, which should be ignored
+                return undefined;
+            }
+
+            const data = compression ? JSON.parse(compression.decompress(envelope.data as string)) : envelope.data;
+            return this.decode(data) as ICacheRecord;
+        } catch {
+            // The text was not written by a JSON cache serializer
+            return undefined;
+        }
+    }
+
+    /**
+     * Encodes a value as a value supported by JSON.
+     * @param value The value to encode.
+     * @param ancestors The objects that contain the value, to detect circular references.
+     * @param lenient Whether functions and symbols are dropped, instead of failing the serialization.
+     * @returns The encoded value.
+     */
+    private encode(value: unknown, ancestors: Set<object>, lenient = false): unknown {
+        switch (typeof value) {
+            case "undefined":
+                return { $type: "undefined" };
+            case "bigint":
+                return { $type: "BigInt", value: value.toString() };
+            case "number":
+                return Number.isFinite(value) ? value : { $type: "Number", value: String(value) };
+            case "function":
+            case "symbol":
+                if (lenient) {
+                    return null;
+                }
+
+                throw new TypeError(`A ${typeof value} cannot be serialized.`);
+            case "object":
+                break;
+            default:
+                return value;
+        }
+
+        if (value === null) {
+            return null;
+        }
+
+        if (ancestors.has(value)) {
+            throw new TypeError("A circular reference cannot be serialized.");
+        }
+
+        ancestors.add(value);
+        try {
+            return this.encodeObject(value, ancestors, lenient);
+        } finally {
+            ancestors.delete(value);
+        }
+    }
+
+    /**
+     * Encodes an object as a value supported by JSON.
+     * @param value The object to encode.
+     * @param ancestors The objects that contain the value, to detect circular references.
+     * @param lenient Whether functions and symbols are dropped, instead of failing the serialization.
+     * @returns The encoded object.
+     */
+    private encodeObject(value: object, ancestors: Set<object>, lenient: boolean): unknown {
+        const encode = (child: unknown): unknown => this.encode(child, ancestors, lenient);
+        if (Array.isArray(value)) {
+            return value.map(encode);
+        }
+
+        if (value instanceof Date) {
+            return { $type: "Date", value: value.toISOString() };
+        }
+
+        if (value instanceof Map) {
+            return { $type: "Map", value: [...value].map(([key, item]) => [encode(key), encode(item)]) };
+        }
+
+        if (value instanceof Set) {
+            return { $type: "Set", value: [...value].map(encode) };
+        }
+
+        if (value instanceof Error) {
+            const { name, message, stack } = value;
+            return { $type: "Error", value: { name, message, stack } };
+        }
+
+        // Buffers may be created by other realms, e.g. by workers
+        if (Object.prototype.toString.call(value) === "[object ArrayBuffer]") {
+            return { $type: "ArrayBuffer", value: [...new Uint8Array(value as ArrayBuffer)] };
+        }
+
+        const typedArrayName = getTypedArrayName(value);
+        if (typedArrayName) {
+            return { $type: typedArrayName, value: Array.from(value as ArrayLike<unknown>, encode) };
+        }
+
+        const { toJSON } = value as { toJSON?: unknown };
+        if (typeof toJSON === "function") {
+            return encode(toJSON.call(value));
+        }
+
+        const encoded: Record<string, unknown> = {};
+        for (const [key, property] of Object.entries(value)) {
+            if (!lenient || (typeof property !== "function" && typeof property !== "symbol")) {
+                encoded[key] = encode(property);
+            }
+        }
+
+        // Escape objects that look like encoded values
+        return typeProperty in encoded ? { $type: "Object", value: encoded } : encoded;
+    }
+
+    /**
+     * Decodes a value encoded by @see encode.
+     * @param value The encoded value.
+     * @returns The original value.
+     */
+    private decode(value: unknown): unknown {
+        if (typeof value !== "object" || value === null) {
+            return value;
+        }
+
+        if (Array.isArray(value)) {
+            return value.map(item => this.decode(item));
+        }
+
+        if (!(typeProperty in value)) {
+            return this.decodeObject(value);
+        }
+
+        const encoded = value as IEncodedValue;
+        const items = encoded.value as unknown[];
+        switch (encoded.$type) {
+            case "undefined":
+                return undefined;
+            case "BigInt":
+                return getGlobal<(value: string) => bigint>("BigInt")?.(encoded.value as string);
+            case "Number":
+                return Number(encoded.value);
+            case "Date":
+                return new Date(encoded.value as string);
+            case "Map":
+                return new Map((items as [unknown, unknown][]).map(([key, item]) => [this.decode(key), this.decode(item)]));
+            case "Set":
+                return new Set(items.map(item => this.decode(item)));
+            case "ArrayBuffer":
+                return new Uint8Array(items as number[]).buffer;
+            case "Object":
+                return this.decodeObject(encoded.value as object);
+            case "Error": {
+                const { name, message, stack } = encoded.value as Error;
+                return Object.assign(new Error(message), { name, stack });
+            }
+            default: {
+                const constructor = typedArrayNames.includes(encoded.$type)
+                    ? getGlobal<new (items: unknown[]) => unknown>(encoded.$type)
+                    : undefined;
+                if (!constructor) {
+                    throw new TypeError(`A value of type ${encoded.$type} cannot be deserialized.`);
+                }
+
+                return new constructor(items.map(item => this.decode(item)));
+            }
+        }
+    }
+
+    /**
+     * Decodes the properties of an object encoded by @see encode.
+     * @param value The encoded object.
+     * @returns The original object.
+     */
+    private decodeObject(value: object): Record<string, unknown> {
+        const decoded: Record<string, unknown> = {};
+        for (const [key, property] of Object.entries(value)) {
+            decoded[key] = this.decode(property);
+        }
+
+        return decoded;
+    }
+}
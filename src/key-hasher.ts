@@ -0,0 +1,139 @@
+import hash from "object-hash";
+
+/**
+ * Calculates a hash of a cache key, or a policy key. Equal keys must have the same hash.
+ * String keys are never hashed, they are used as they are.
+ */
+export type KeyHasher = (key: unknown) => string;
+
+/** IDs of functions and classes, which are calculated from their source code once, @see identify. */
+// eslint-disable-next-line @typescript-eslint/ban-types
+const functionIds = new WeakMap<Function, string>();
+
+/**
+ * IDs of symbols that are not registered by `Symbol.for`, @see identify. Symbols are held weakly,
+ * so they can be collected. Runtimes that cannot use symbols as weak keys identify them by their descriptions.
+ */
+const symbolIds = new WeakMap<object, string>();
+
+/** The number of unregistered symbols that were identified by each description. */
+const descriptionCounts = new Map<string, number>();
+
+/**
+ * Gets an ID of a function or a symbol, so that different classes or symbols with the same name never share a hash,
+ * e.g. in minified code. Functions and classes are identified by their names and hashes of their source code,
+ * so IDs are the same in every process, and saved items are never read by another class.
+ * Registered symbols are identified by their keys. Other symbols cannot be the same in another process; the first one
+ * with a description is identified by it, and others by the description and a number.
+ * @param value The function or the symbol.
+ */
+// eslint-disable-next-line @typescript-eslint/ban-types
+function identify(value: Function | symbol): string {
+    if (typeof value === "function") {
+        let id = functionIds.get(value);
+        if (id === undefined) {
+            id = `function ${value.name}:${hash(Function.prototype.toString.call(value))}`;
+            functionIds.set(value, id);
+        }
+
+        return id;
+    }
+
+    const registered = Symbol.keyFor(value);
+    if (registered !== undefined) {
+        return `Symbol.for(${JSON.stringify(registered)})`;
+    }
+
+    const weakKey = value as unknown as object;
+    let id = symbolIds.get(weakKey);
+    if (id === undefined) {
+        const description = value.toString();
+        try {
+            symbolIds.set(weakKey, description);
+        } catch {
+            return description;
+        }
+
+        const count = (descriptionCounts.get(description) || 0) + 1;
+        descriptionCounts.set(description, count);
+        id = count === 1 ? description : `${description}#${count}`;
+        symbolIds.set(weakKey, id);
+    }
+
+    return id;
+}
+
+/**
+ * Calculates the hash of a key using object-hash. It supports most values, but it is slow for large keys.
+ * Functions and symbols are identified by their IDs, @see identify.
+ */
+export const objectKeyHasher: KeyHasher = key => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return hash(key as any, {
+        // Replaced by text rather than objects, which would be replaced again. Keys rarely contain the NUL character.
+        replacer: (value: unknown) => typeof value === "function" || typeof value === "symbol"
+            ? `\u0000${identify(value)}`
+            : value
+    });
+};
+
+/**
+ * Calculates the hash of a key by serializing it to stable JSON-like text, with object properties sorted by name.
+ * It is fast, and it supports circular references. Functions, classes and symbols are identified by their IDs,
+ * @see identify, and class instances by their class names and properties.
+ */
+export const jsonKeyHasher: KeyHasher = key => serialize(key, []);
+
+/**
+ * Serializes a value to stable JSON-like text.
+ * @param value The value to serialize.
+ * @param ancestors Objects that contain the value, used to detect circular references.
+ */
+function serialize(value: unknown, ancestors: unknown[]): string {
+    switch (typeof value) {
+        case "string":
+            return JSON.stringify(value);
+        case "number":
+        case "boolean":
+        case "undefined":
+            return String(value);
+        case "bigint":
+            return `${value}n`;
+        case "symbol":
+        case "function":
+            return identify(value);
+    }
+
+    if (value === null) {
+        return "null";
+    }
+
+    if (ancestors.indexOf(value) >= 0) {
+        return "[circular]";
+    }
+
+    ancestors.push(value);
+    let result: string;
+    if (Array.isArray(value)) {
+        result = `[${value.map(item => serialize(item, ancestors)).join(",")}]`;
+    } else if (value instanceof Date) {
+        result = `Date(${value.valueOf()})`;
+    } else if (value instanceof Map) {
+        const entries = [...value].map(([name, item]) => `${serialize(name, ancestors)}:${serialize(item, ancestors)}`);
+        result = `Map{${entries.join(",")}}`;
+    } else if (value instanceof Set) {
+        result = `Set[${[...value].map(item => serialize(item, ancestors)).join(",")}]`;
+    } else {
+        const prototype = Object.getPrototypeOf(value);
+        const { constructor } = value as object;
+        const className = prototype === Object.prototype || prototype === null || !constructor
+            ? ""
+            : constructor.name;
+        const properties = Object.keys(value as object).sort().map(
+            name => `${JSON.stringify(name)}:${serialize((value as { [name: string]: unknown })[name], ancestors)}`);
+        result = `${className}{${properties.join(",")}}`;
+    }
+
+    ancestors.pop();
+    return result;
+}
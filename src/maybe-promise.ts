@@ -0,0 +1,22 @@
+/** A value that is either available now, or will be available when a promise resolves. */
+export type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Invokes a callback with a value, waiting for it first if it is a promise.
+ * Synchronous values are handled synchronously, so synchronous storages keep synchronous behavior.
+ * @param value A value or a promise of a value.
+ * @param callback The callback to invoke with the value.
+ * @returns The result of the callback, or a promise of it if the value was a promise.
+ */
+export function chain<T, R>(value: MaybePromise<T>, callback: (value: T) => MaybePromise<R>): MaybePromise<R> {
+    return value instanceof Promise ? value.then(callback) : callback(value);
+}
+
+/**
+ * Combines multiple values, some of which may be promises.
+ * @param values Values or promises of values.
+ * @returns The values, or a promise of them if any value was a promise.
+ */
+export function all<T>(values: MaybePromise<T>[]): MaybePromise<T[]> {
+    return values.some(value => value instanceof Promise) ? Promise.all(values) : values as T[];
+}
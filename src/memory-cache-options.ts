@@ -0,0 +1,27 @@
+import { ICacheItem } from "./cache-item";
+
+/**
+ * The strategy to choose which item to evict when a memory cache is full.
+ * - lru: Least recently used, the item that was saved or read the longest time ago.
+ * - lfu: Least frequently used, the item that has been read the least times. Checking an item is not a read.
+ * - fifo: First in, first out, the item that was saved first.
+ */
+export type EvictionStrategy = "lru" | "lfu" | "fifo";
+
+/** Options to limit the size of a memory cache. */
+export interface IMemoryCacheOptions {
+    /** The max number of items in the cache. If omitted, the number of items is not limited. */
+    maxEntries?: number;
+
+    /**
+     * The max total size of items in the cache, as measured by @see sizeOf.
+     * If omitted, the total size is not limited.
+     */
+    maxSize?: number;
+
+    /** A function that calculates the size of an item. If omitted, every item has the size 1. */
+    sizeOf?: (cacheItem: ICacheItem) => number;
+
+    /** The strategy to choose which item to evict when the cache is full. Defaults to "lru". */
+    evictionStrategy?: EvictionStrategy;
+}
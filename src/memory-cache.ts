@@ -1,39 +1,174 @@
 import { ICacheItem } from "./cache-item";
-import { ICacheStorage } from "./cache-storage";
+import { EvictionListener, ICacheStorage } from "./cache-storage";
+import { EvictionStrategy, IMemoryCacheOptions } from "./memory-cache-options";
 
 /** A cache manager which uses memory as storage. */
 export class MemoryCache implements ICacheStorage {
-    /** The cache storage. */
-    private _cache: { [hash: string]: ICacheItem } = {};
+    /**
+     * The cache storage. Items are kept in the order they were saved, or with the "lru" strategy,
+     * in the order they were used, so the first item is the one to evict.
+     */
+    private _cache = new Map<string, ICacheItem>();
+
+    /** The size of each item, only tracked when the total size is limited. */
+    private _sizes = new Map<string, number>();
+
+    /** The number of times each item has been used, not counting peeks. */
+    private _reads = new Map<string, number>();
+
+    /** The total size of all items. */
+    private _totalSize = 0;
+
+    private _evictionListeners: EvictionListener[] = [];
+
+    /**
+     * Creates a memory cache.
+     * @param options Options to limit the size of the cache. If omitted, the cache is unbounded.
+     */
+    constructor(public readonly options: IMemoryCacheOptions = {}) { }
 
     /** @inheritdoc */
     public has(hash: string): boolean {
-        return hash in this._cache;
+        return this._cache.has(hash);
     }
 
     /** @inheritdoc */
     public get(hash: string): ICacheItem | undefined {
-        return this._cache[hash];
+        const item = this._cache.get(hash);
+        if (!item) {
+            return undefined;
+        }
+
+        this._reads.set(hash, (this._reads.get(hash) || 0) + 1);
+        if (this.strategy === "lru") {
+            // Move the item to the end, as the most recently used one
+            this._cache.delete(hash);
+            this._cache.set(hash, item);
+        }
+
+        return item;
+    }
+
+    /** @inheritdoc */
+    public peek(hash: string): ICacheItem | undefined {
+        return this._cache.get(hash);
     }
 
     /** @inheritdoc */
     public set(hash: string, cacheItem: ICacheItem): void {
-        this._cache[hash] = cacheItem;
+        // Remove the existing item first, so the new item is ordered as the latest one
+        this.delete(hash);
+        this._cache.set(hash, cacheItem);
+        if (this.options.maxSize !== undefined) {
+            const size = this.options.sizeOf ? this.options.sizeOf(cacheItem) : 1;
+            this._sizes.set(hash, size);
+            this._totalSize += size;
+        }
+
+        this.evict(hash);
     }
 
     /** @inheritdoc */
     public remove(hash: string): ICacheItem | undefined {
-        const item = this._cache[hash];
+        return this.delete(hash);
+    }
+
+    /** @inheritdoc */
+    public clear(): void {
+        this._cache.clear();
+        this._sizes.clear();
+        this._reads.clear();
+        this._totalSize = 0;
+    }
+
+    /** @inheritdoc */
+    public entries(): [string, ICacheItem][] {
+        return [...this._cache];
+    }
+
+    /** @inheritdoc */
+    public addEvictionListener(listener: EvictionListener): void {
+        this._evictionListeners.push(listener);
+    }
+
+    /**
+     * Removes an item and its tracking information.
+     * @param hash A unique hash to identify a cache item.
+     * @returns The removed item if it existed; otherwise, undefined.
+     */
+    private delete(hash: string): ICacheItem | undefined {
+        const item = this._cache.get(hash);
         if (!item) {
             return undefined;
         }
 
-        delete this._cache[hash];
+        this._cache.delete(hash);
+        this._reads.delete(hash);
+        const size = this._sizes.get(hash);
+        if (size !== undefined) {
+            this._sizes.delete(hash);
+            this._totalSize -= size;
+        }
+
         return item;
     }
 
-    /** @inheritdoc */
-    public clear(): void {
-        this._cache = {};
+    /**
+     * Evicts items until the cache is within its limits.
+     * @param savedHash The hash of the item that was just saved. It is only evicted if no other item is left.
+     */
+    private evict(savedHash: string): void {
+        const { maxEntries, maxSize } = this.options;
+        while (this._cache.size > 0
+            && ((maxEntries !== undefined && this._cache.size > maxEntries)
+                || (maxSize !== undefined && this._totalSize > maxSize))) {
+            const hash = this.findEvictionCandidate(savedHash);
+            const item = this.delete(hash);
+            if (item) {
+                for (const listener of this._evictionListeners) {
+                    listener(hash, item);
+                }
+            }
+        }
+    }
+
+    /** The strategy to choose which item to evict. */
+    private get strategy(): EvictionStrategy {
+        return this.options.evictionStrategy || "lru";
+    }
+
+    /**
+     * Finds the item to be evicted according to the eviction strategy.
+     * @param savedHash The hash of the item that was just saved. It is only evicted if no other item is left.
+     * @returns The hash of the item to be evicted.
+     */
+    private findEvictionCandidate(savedHash: string): string {
+        if (this._cache.size === 1) {
+            return savedHash;
+        }
+
+        const lfu = this.strategy === "lfu";
+        let candidate: string | undefined;
+        let candidateReads = 0;
+        for (const hash of this._cache.keys()) {
+            if (hash === savedHash) {
+                // The item was just saved, so it is the most recent one
+                continue;
+            }
+
+            if (!lfu) {
+                // Items are kept in the order they were saved or used, so the first one is the oldest
+                return hash;
+            }
+
+            // Ties are evicted in the order items were saved
+            const reads = this._reads.get(hash) || 0;
+            if (candidate === undefined || reads < candidateReads) {
+                candidate = hash;
+                candidateReads = reads;
+            }
+        }
+
+        return candidate as string;
     }
 }
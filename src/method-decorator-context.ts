@@ -0,0 +1,20 @@
+/**
+ * The context of a method decorated by a standard decorator of TypeScript 5,
+ * i.e. the part of ClassMethodDecoratorContext that cache decorators use.
+ */
+export interface IMethodDecoratorContext {
+    /** The kind of the decorated member, which is always "method". */
+    readonly kind: "method";
+
+    /** The name of the decorated method. */
+    readonly name: string | symbol;
+
+    /** Whether the decorated method is static. */
+    readonly static: boolean;
+
+    /**
+     * Adds a function that is called when an instance is created, or when the class is defined for static methods.
+     * @param initializer A function that takes the instance, or the class, as 'this'.
+     */
+    addInitializer(initializer: (this: unknown) => void): void;
+}
@@ -0,0 +1,19 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { CacheManager } from "../cache-manager";
+import { CacheMode } from "../cache-mode";
+
+const modes = new AsyncLocalStorage<CacheMode>();
+
+/**
+ * Runs a function with a cache mode for all cache managers, e.g. to bypass caches while handling a request.
+ * The mode applies to everything the function calls, including asynchronous work that it starts.
+ * Managers use the mode of the scope, or their own mode, whichever caches less. A "disabled" scope does not clear
+ * caches, it acts like "bypass".
+ * @param mode The cache mode of the scope.
+ * @param callback The function to run.
+ * @returns The result of the function.
+ */
+export function runWithCacheMode<T>(mode: CacheMode, callback: () => T): T {
+    CacheManager.useModeScope(() => modes.getStore());
+    return modes.run(mode, callback);
+}
@@ -0,0 +1,83 @@
+import cluster, { Worker } from "cluster";
+import { IInvalidationMessage } from "../invalidation-message";
+import { IInvalidationTransport } from "../invalidation-transport";
+
+/** An invalidation message sent over IPC, with the channel that separates it from other messages. */
+interface IEnvelope {
+    channel: string;
+    message: IInvalidationMessage;
+}
+
+/**
+ * An invalidation transport between processes of a Node.js cluster, over IPC.
+ * Workers send messages to the primary process, which relays them to all other workers.
+ * So the primary process must subscribe too, e.g. with a cache manager, or by @see relay if it has no cache.
+ */
+export class ClusterInvalidationTransport implements IInvalidationTransport {
+    /**
+     * Creates an invalidation transport between processes of a cluster.
+     * @param channel The name of the channel, which is the same in all processes.
+     */
+    constructor(private readonly _channel = "managed-cache") { }
+
+    /** @inheritdoc */
+    public publish(message: IInvalidationMessage): void {
+        const envelope: IEnvelope = { channel: this._channel, message };
+        if (cluster.isPrimary) {
+            this.send(envelope);
+        } else if (process.send) {
+            process.send(envelope);
+        }
+    }
+
+    /** @inheritdoc */
+    public subscribe(listener: (message: IInvalidationMessage) => void): () => void {
+        if (cluster.isPrimary) {
+            const relay = (worker: Worker, envelope: unknown): void => {
+                if (this.accepts(envelope)) {
+                    this.send(envelope, worker);
+                    listener(envelope.message);
+                }
+            };
+            cluster.on("message", relay);
+            return () => cluster.off("message", relay);
+        }
+
+        const receive = (envelope: unknown): void => {
+            if (this.accepts(envelope)) {
+                listener(envelope.message);
+            }
+        };
+        process.on("message", receive);
+        return () => process.off("message", receive);
+    }
+
+    /**
+     * Relays messages between workers, in a primary process which has no cache manager.
+     * @returns A function that stops relaying messages.
+     */
+    public relay(): () => void {
+        return this.subscribe(() => undefined);
+    }
+
+    /**
+     * Sends a message from the primary process to workers.
+     * @param envelope The message and its channel.
+     * @param sender The worker that sent the message, which does not need it back.
+     */
+    private send(envelope: IEnvelope, sender?: Worker): void {
+        for (const worker of Object.values(cluster.workers || {})) {
+            if (worker && worker !== sender && worker.isConnected()) {
+                worker.send(envelope);
+            }
+        }
+    }
+
+    /**
+     * Determines whether an IPC message is an invalidation message of the channel.
+     * @param envelope The IPC message.
+     */
+    private accepts(envelope: unknown): envelope is IEnvelope {
+        return typeof envelope === "object" && envelope !== null && (envelope as IEnvelope).channel === this._channel;
+    }
+}
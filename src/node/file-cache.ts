@@ -0,0 +1,115 @@
+import { createHash } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { ICacheSerializer } from "../cache-serializer";
+import { PersistentCache } from "../persistent-cache";
+
+/** The extension of cache files. */
+const extension = ".json";
+
+let tempFileCount = 0;
+
+/**
+ * A cache storage which saves each item as a file in a directory, so cached values survive between processes.
+ * See @see PersistentCache for how values are saved.
+ */
+export class FileCache extends PersistentCache {
+    /**
+     * Creates a file cache.
+     * @param directory The directory to save cache files in. It is created if it does not exist.
+     * @param serializer Converts items to text and back. Defaults to @see JsonCacheSerializer.
+     */
+    constructor(public readonly directory: string, serializer?: ICacheSerializer) {
+        super(serializer);
+        fs.mkdirSync(directory, { recursive: true });
+    }
+
+    /** @inheritdoc */
+    protected readText(hash: string): string | undefined {
+        return this.readFile(this.getFilePath(hash));
+    }
+
+    /** @inheritdoc */
+    protected readAllTexts(): string[] {
+        const texts: string[] = [];
+        for (const fileName of this.getFileNames()) {
+            const text = this.readFile(path.join(this.directory, fileName));
+            if (text !== undefined) {
+                texts.push(text);
+            }
+        }
+
+        return texts;
+    }
+
+    /**
+     * Writes the file of an item. The file is replaced atomically, so readers never get a partially written file.
+     * @param hash A unique hash to identify a cache item.
+     * @param text The text of the item.
+     */
+    protected writeText(hash: string, text: string): void {
+        const filePath = this.getFilePath(hash);
+        const tempPath = `${filePath}.${process.pid}.${++tempFileCount}.tmp`;
+        fs.writeFileSync(tempPath, text);
+        fs.renameSync(tempPath, filePath);
+    }
+
+    /** @inheritdoc */
+    protected deleteText(hash: string): void {
+        this.deleteFile(this.getFilePath(hash));
+    }
+
+    /** @inheritdoc */
+    protected deleteAllTexts(): void {
+        for (const fileName of this.getFileNames()) {
+            this.deleteFile(path.join(this.directory, fileName));
+        }
+    }
+
+    /**
+     * Gets the path of the file that saves an item. Hashes may contain any character, so file names are hashed again.
+     * @param hash A unique hash to identify a cache item.
+     */
+    private getFilePath(hash: string): string {
+        const fileName = createHash("sha1").update(hash).digest("hex") + extension;
+        return path.join(this.directory, fileName);
+    }
+
+    /**
+     * Gets the names of all cache files in the directory.
+     */
+    private getFileNames(): string[] {
+        return fs.readdirSync(this.directory).filter(fileName => fileName.endsWith(extension));
+    }
+
+    /**
+     * Reads a file if it exists.
+     * @param filePath The path of the file.
+     * @returns The text of the file if it exists; otherwise, undefined.
+     */
+    private readFile(filePath: string): string | undefined {
+        try {
+            return fs.readFileSync(filePath, "utf8");
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+                return undefined;
+            }
+
+            throw error;
+        }
+    }
+
+    /**
+     * Deletes a file if it exists.
+     * @param filePath The path of the file.
+     */
+    private deleteFile(filePath: string): void {
+        try {
+            fs.unlinkSync(filePath);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+                throw error;
+            }
+        }
+    }
+}
@@ -0,0 +1,15 @@
+import { gunzipSync, gzipSync } from "zlib";
+import { ICacheCompression } from "../cache-compression";
+
+/** Compresses serialized records with gzip, and encodes them as base64 text. */
+export const gzipCompression: ICacheCompression = {
+    name: "gzip",
+
+    compress(text: string): string {
+        return gzipSync(text).toString("base64");
+    },
+
+    decompress(text: string): string {
+        return gunzipSync(Buffer.from(text, "base64")).toString("utf8");
+    }
+};
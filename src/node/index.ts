@@ -0,0 +1,5 @@
+export * from "./cache-mode-scope";
+export * from "./cluster-invalidation-transport";
+export * from "./file-cache";
+export * from "./gzip-compression";
+export * from "./worker-invalidation-transport";
@@ -0,0 +1,16 @@
+import { BroadcastChannel } from "worker_threads";
+import { BroadcastChannelTransport } from "../broadcast-channel-transport";
+
+/**
+ * An invalidation transport between worker threads of Node.js, including the main thread,
+ * over a broadcast channel of the `worker_threads` module.
+ */
+export class WorkerInvalidationTransport extends BroadcastChannelTransport {
+    /**
+     * Creates an invalidation transport between worker threads.
+     * @param name The name of the broadcast channel, which is the same in all threads.
+     */
+    constructor(name = "managed-cache") {
+        super(new BroadcastChannel(name));
+    }
+}
@@ -0,0 +1,48 @@
+import { ICacheItem } from "./cache-item";
+import { ICacheRecord } from "./cache-record";
+
+/**
+ * Items with promise values that have not been settled yet, kept in memory by storages which cannot save promises.
+ * An item is saved once its promise settles, unless it has been replaced or removed meanwhile.
+ * A rejected promise is usually removed by its cache manager right away, so only failures that the manager keeps
+ * (e.g. for @see ICachePolicy.errorMaxAge) are saved.
+ */
+export class PendingItems extends Map<string, ICacheItem> {
+    /**
+     * Keeps an item with a promise value until the promise settles.
+     * @param hash A unique hash to identify the item.
+     * @param cacheItem The item with a promise value.
+     * @param save A function that saves the item with the resolved value, or with the error of a rejected promise.
+     */
+    public track(hash: string, cacheItem: ICacheItem, save: (settled: ICacheItem, rejected: boolean) => void): void {
+        this.set(hash, cacheItem);
+        const settle = (value: unknown, rejected: boolean): void => {
+            // The manager updates the item when the promise settles, e.g. with the max age of errors
+            if (this.get(hash) === cacheItem) {
+                this.delete(hash);
+                save({ ...cacheItem, value }, rejected);
+            }
+        };
+        (cacheItem.value as Promise<unknown>).then(resolved => settle(resolved, false), error => settle(error, true));
+    }
+}
+
+/**
+ * Restores an item from its record. Settled promises are restored as promises.
+ * @param record The record of an item.
+ */
+export function reviveRecord(record: Pick<ICacheRecord, "item" | "promise" | "rejected">): ICacheItem {
+    const { item, promise, rejected } = record;
+    if (!promise) {
+        return item;
+    }
+
+    if (!rejected) {
+        return { ...item, value: Promise.resolve(item.value) };
+    }
+
+    // Like a rejected promise kept in memory, which is handled by its manager
+    const value = Promise.reject(item.value);
+    value.catch(() => undefined);
+    return { ...item, value };
+}
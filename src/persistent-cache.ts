@@ -0,0 +1,193 @@
+import { ICacheItem } from "./cache-item";
+import { ICacheRecord } from "./cache-record";
+import { ICacheSerializer } from "./cache-serializer";
+import { ICacheStorage } from "./cache-storage";
+import { JsonCacheSerializer } from "./json-cache-serializer";
+import { PendingItems, reviveRecord } from "./pending-items";
+
+/**
+ * A base class of cache storages that save items as text, so cached values survive between processes or page loads.
+ * Values are saved as follows:
+ * - A promise is kept in memory until it is resolved. Then its resolved value is saved, and it is restored as
+ *   a resolved promise. A rejected promise is only saved if its manager keeps it, e.g. for its error max age.
+ * - Items are converted to text by a serializer, which defaults to @see JsonCacheSerializer.
+ *   A value that cannot be serialized (e.g. a function or a circular object) is not saved.
+ * - How a value was loaded (@see ICacheItem.thisParameter and @see ICacheItem.parameters) is not saved.
+ */
+export abstract class PersistentCache implements ICacheStorage {
+    /** Items with promise values that have not been settled yet. */
+    private _pending = new PendingItems();
+
+    /**
+     * Creates a persistent cache.
+     * @param serializer Converts items to text and back.
+     */
+    constructor(protected serializer: ICacheSerializer = new JsonCacheSerializer()) { }
+
+    /** @inheritdoc */
+    public has(hash: string): boolean {
+        return this._pending.has(hash) || this.readText(hash) !== undefined;
+    }
+
+    /** @inheritdoc */
+    public get(hash: string): ICacheItem | undefined {
+        return this._pending.get(hash) || this.read(hash);
+    }
+
+    /** @inheritdoc */
+    public set(hash: string, cacheItem: ICacheItem): void {
+        this._pending.delete(hash);
+        const { value } = cacheItem;
+        if (!(value instanceof Promise)) {
+            this.write(hash, cacheItem);
+            return;
+        }
+
+        // Remove the previous value, which should no longer be used
+        this.deleteText(hash);
+        this._pending.track(hash, cacheItem, (settled, rejected) => this.write(hash, settled, true, rejected));
+    }
+
+    /** @inheritdoc */
+    public remove(hash: string): ICacheItem | undefined {
+        const pending = this._pending.get(hash);
+        if (pending) {
+            this._pending.delete(hash);
+            return pending;
+        }
+
+        const item = this.read(hash);
+        this.deleteText(hash);
+        return item;
+    }
+
+    /** @inheritdoc */
+    public clear(): void {
+        this._pending.clear();
+        this.deleteAllTexts();
+    }
+
+    /** @inheritdoc */
+    public entries(): [string, ICacheItem][] {
+        const entries = [...this._pending];
+        for (const text of this.readAllTexts()) {
+            const record = this.parse(text);
+            if (record && !this._pending.has(record.hash)) {
+                entries.push([record.hash, this.revive(record)]);
+            }
+        }
+
+        return entries;
+    }
+
+    /** @inheritdoc */
+    public touch(hash: string, cacheItem: ICacheItem): void {
+        if (!this._pending.has(hash) && this.readText(hash) !== undefined) {
+            this.write(hash, cacheItem);
+        }
+    }
+
+    /** @inheritdoc */
+    public useSerializer(serializer: ICacheSerializer): void {
+        this.serializer = serializer;
+    }
+
+    /**
+     * Reads the text of an item.
+     * @param hash A unique hash to identify a cache item.
+     * @returns The text of the item if it exists; otherwise, undefined.
+     */
+    protected abstract readText(hash: string): string | undefined;
+
+    /**
+     * Reads the texts of all items.
+     */
+    protected abstract readAllTexts(): string[];
+
+    /**
+     * Writes the text of an item, replacing the existing text if any.
+     * @param hash A unique hash to identify a cache item.
+     * @param text The text of the item.
+     */
+    protected abstract writeText(hash: string, text: string): void;
+
+    /**
+     * Deletes the text of an item if it exists.
+     * @param hash A unique hash to identify a cache item.
+     */
+    protected abstract deleteText(hash: string): void;
+
+    /**
+     * Deletes the texts of all items.
+     */
+    protected abstract deleteAllTexts(): void;
+
+    /**
+     * Restores an item from its record.
+     * @param record The record of an item.
+     */
+    protected revive(record: ICacheRecord): ICacheItem {
+        return reviveRecord(record);
+    }
+
+    /**
+     * Parses the record of an item from its text.
+     * @param text The text of an item.
+     * @returns The record if the text is valid; otherwise, undefined.
+     */
+    protected parse(text: string): ICacheRecord | undefined {
+        return this.serializer.deserialize(text);
+    }
+
+    /**
+     * Reads an item.
+     * @param hash A unique hash to identify a cache item.
+     * @returns The item if it exists and is valid; otherwise, undefined.
+     */
+    private read(hash: string): ICacheItem | undefined {
+        const text = this.readText(hash);
+        const record = text === undefined ? undefined : this.parse(text);
+        return record && this.revive(record);
+    }
+
+    /**
+     * Writes an item. If the value cannot be serialized, the existing item is deleted instead.
+     * @param hash A unique hash to identify a cache item.
+     * @param cacheItem The item to write.
+     * @param promise Whether the value was settled from a promise.
+     * @param rejected Whether the promise was rejected.
+     */
+    private write(hash: string, cacheItem: ICacheItem, promise = false, rejected = false): void {
+        const text = this.stringify(hash, cacheItem, promise, rejected);
+        if (text === undefined) {
+            // The value cannot be saved, remove the previous value which should no longer be used
+            this.deleteText(hash);
+            return;
+        }
+
+        this.writeText(hash, text);
+    }
+
+    /**
+     * Serializes an item to text.
+     * @param hash A unique hash to identify a cache item.
+     * @param cacheItem The item to serialize.
+     * @param promise Whether the value was settled from a promise.
+     * @param rejected Whether the promise was rejected.
+     * @returns The text of the item, or undefined if the value cannot be serialized.
+     */
+    private stringify(hash: string, cacheItem: ICacheItem, promise: boolean, rejected: boolean): string | undefined {
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { thisParameter, parameters, ...item } = cacheItem;
+        const record: ICacheRecord = { hash, item };
+        if (promise) {
+            record.promise = promise;
+        }
+
+        if (rejected) {
+            record.rejected = rejected;
+        }
+
+        return this.serializer.serialize(record);
+    }
+}
@@ -0,0 +1,45 @@
+import { getWrapped } from "../wrapped-functions";
+
+/**
+ * Finds whether the result of a call of a wrapped function is cached.
+ * @param wrapped A function wrapped by a cache manager, or a decorated method bound to an instance.
+ * @param parameters The parameters of the call.
+ */
+// eslint-disable-next-line @typescript-eslint/ban-types
+function isCached(wrapped: Function, parameters: unknown[]): boolean {
+    const { manager, key } = getWrapped(wrapped).locate(undefined, parameters);
+    return manager.has(key);
+}
+
+/**
+ * Describes a call of a wrapped function in an error message. Wrapped functions have no useful names.
+ * @param parameters The parameters of the call.
+ */
+function describeCall(parameters: unknown[]): string {
+    return `the call with (${parameters.map(parameter => String(parameter)).join(", ")})`;
+}
+
+/**
+ * Asserts that the result of a call of a wrapped function is cached and has not expired, without calling it.
+ * It works with any test framework, by throwing an error if the assertion fails. The storage must be synchronous.
+ * @param wrapped A function wrapped by a cache manager, or a decorated method bound to an instance,
+ * e.g. `expectCached(service.getUser.bind(service), 42)`.
+ * @param parameters The parameters of the call.
+ */
+// eslint-disable-next-line @typescript-eslint/ban-types
+export function expectCached(wrapped: Function, ...parameters: unknown[]): void {
+    if (!isCached(wrapped, parameters)) {
+        throw new Error(`Expected the result of ${describeCall(parameters)} to be cached.`);
+    }
+}
+
+/**
+ * Asserts that the result of a call of a wrapped function is not cached, or has expired, without calling it.
+ * @see expectCached for parameters.
+ */
+// eslint-disable-next-line @typescript-eslint/ban-types
+export function expectNotCached(wrapped: Function, ...parameters: unknown[]): void {
+    if (isCached(wrapped, parameters)) {
+        throw new Error(`Expected the result of ${describeCall(parameters)} not to be cached.`);
+    }
+}
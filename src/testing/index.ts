@@ -0,0 +1,4 @@
+export * from "./expect-cached";
+export * from "./manual-clock";
+export * from "./recording-cache";
+export * from "./storage-operation";
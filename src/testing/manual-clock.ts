@@ -0,0 +1,35 @@
+import { IClock } from "../clock";
+
+/** A clock whose time only changes when it is told to, so tests of expiration do not need to wait. */
+export class ManualClock implements IClock {
+    private _time: number;
+
+    /**
+     * Creates a manual clock.
+     * @param time The initial time, as a date or milliseconds since the epoch.
+     */
+    constructor(time: Date | number = 0) {
+        this._time = time.valueOf();
+    }
+
+    /** @inheritdoc */
+    public now(): Date {
+        return new Date(this._time);
+    }
+
+    /**
+     * Moves the time forward.
+     * @param milliseconds How long to move the time forward.
+     */
+    public advance(milliseconds: number): void {
+        this._time += milliseconds;
+    }
+
+    /**
+     * Sets the time.
+     * @param time The new time, as a date or milliseconds since the epoch.
+     */
+    public set(time: Date | number): void {
+        this._time = time.valueOf();
+    }
+}
@@ -0,0 +1,74 @@
+import { ICacheItem } from "../cache-item";
+import { MemoryCache } from "../memory-cache";
+import { IStorageOperation } from "./storage-operation";
+
+/** A memory cache which records every operation, so tests can check how a cache manager uses its storage. */
+export class RecordingCache extends MemoryCache {
+    /** The operations of the storage, in the order they were called. */
+    public readonly operations: IStorageOperation[] = [];
+
+    /** @inheritdoc */
+    public override has(hash: string): boolean {
+        this.operations.push({ name: "has", hash });
+        return super.has(hash);
+    }
+
+    /** @inheritdoc */
+    public override get(hash: string): ICacheItem | undefined {
+        this.operations.push({ name: "get", hash });
+        return super.get(hash);
+    }
+
+    /** @inheritdoc */
+    public override peek(hash: string): ICacheItem | undefined {
+        this.operations.push({ name: "peek", hash });
+        return super.peek(hash);
+    }
+
+    /** @inheritdoc */
+    public override set(hash: string, cacheItem: ICacheItem): void {
+        this.operations.push({ name: "set", hash });
+        super.set(hash, cacheItem);
+    }
+
+    /** @inheritdoc */
+    public override remove(hash: string): ICacheItem | undefined {
+        this.operations.push({ name: "remove", hash });
+        return super.remove(hash);
+    }
+
+    /** @inheritdoc */
+    public override clear(): void {
+        this.operations.push({ name: "clear" });
+        super.clear();
+    }
+
+    /** @inheritdoc */
+    public override entries(): [string, ICacheItem][] {
+        this.operations.push({ name: "entries" });
+        return super.entries();
+    }
+
+    /**
+     * Counts recorded operations.
+     * @param name The name of the operations to count. If omitted, all operations are counted.
+     */
+    public count(name?: IStorageOperation["name"]): number {
+        return name ? this.operations.filter(operation => operation.name === name).length : this.operations.length;
+    }
+
+    /**
+     * Forgets recorded operations, e.g. after a test has set up the cache. Items are kept.
+     */
+    public resetOperations(): void {
+        this.operations.length = 0;
+    }
+
+    /**
+     * Gets the items in the storage without recording the operation.
+     * @returns The items in the order they were saved.
+     */
+    public items(): ICacheItem[] {
+        return super.entries().map(([, cacheItem]) => cacheItem);
+    }
+}
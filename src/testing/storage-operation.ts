@@ -0,0 +1,8 @@
+/** An operation of a storage, recorded by @see RecordingCache. */
+export interface IStorageOperation {
+    /** The name of the method of the storage. */
+    name: "get" | "peek" | "set" | "has" | "remove" | "clear" | "entries";
+
+    /** The hash of the item, for operations of one item. */
+    hash?: string;
+}
@@ -0,0 +1,13 @@
+/**
+ * Determines when items are written to the tiers of a tiered cache.
+ * - write-through: Items are written to all tiers immediately.
+ * - write-back: Items are written to the first tier immediately, and to other tiers when they are evicted from the
+ *   first tier, or when the tiered cache is flushed.
+ */
+export type WriteMode = "write-through" | "write-back";
+
+/** Options of a tiered cache. */
+export interface ITieredCacheOptions {
+    /** Determines when items are written to the tiers. Defaults to "write-through". */
+    writeMode?: WriteMode;
+}
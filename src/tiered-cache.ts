@@ -0,0 +1,185 @@
+import { ICacheItem } from "./cache-item";
+import { ICacheSerializer } from "./cache-serializer";
+import { EvictionListener, ICacheStorage } from "./cache-storage";
+import { ITieredCacheOptions } from "./tiered-cache-options";
+
+/**
+ * A cache storage composed of multiple tiers, ordered from the fastest to the slowest,
+ * e.g. a small bounded memory cache in front of a file cache.
+ * Items are read from the tiers in order, and items found in a slower tier are promoted to the faster tiers.
+ * Items are copied between tiers with their metadata, so a promoted item keeps its creation time and max age.
+ */
+export class TieredCache implements ICacheStorage {
+    /** Hashes of items that have only been written to the first tier, in the write-back mode. */
+    private _dirty = new Set<string>();
+
+    private _evictionListeners: EvictionListener[] = [];
+
+    /**
+     * Creates a tiered cache.
+     * @param tiers The tiers, ordered from the fastest to the slowest.
+     * @param options Options of the tiered cache.
+     */
+    constructor(public readonly tiers: ICacheStorage[], public readonly options: ITieredCacheOptions = {}) {
+        if (tiers.length === 0) {
+            throw new Error("A tiered cache requires at least one tier.");
+        }
+
+        tiers.forEach((tier, index) => {
+            if (tier.addEvictionListener) {
+                tier.addEvictionListener((hash, cacheItem) => this.handleEviction(index, hash, cacheItem));
+            }
+        });
+    }
+
+    /** @inheritdoc */
+    public has(hash: string): boolean {
+        return this.tiers.some(tier => tier.has(hash));
+    }
+
+    /** @inheritdoc */
+    public get(hash: string): ICacheItem | undefined {
+        for (let i = 0; i < this.tiers.length; i++) {
+            const item = (this.tiers[i] as ICacheStorage).get(hash);
+            if (item) {
+                // Promote the item to faster tiers
+                for (let j = 0; j < i; j++) {
+                    (this.tiers[j] as ICacheStorage).set(hash, item);
+                }
+
+                return item;
+            }
+        }
+
+        return undefined;
+    }
+
+    /** @inheritdoc */
+    public peek(hash: string): ICacheItem | undefined {
+        for (const tier of this.tiers) {
+            const item = tier.peek ? tier.peek(hash) : tier.get(hash);
+            if (item) {
+                return item;
+            }
+        }
+
+        return undefined;
+    }
+
+    /** @inheritdoc */
+    public set(hash: string, cacheItem: ICacheItem): void {
+        if (this.options.writeMode === "write-back") {
+            this._dirty.add(hash);
+            this.firstTier.set(hash, cacheItem);
+        } else {
+            for (const tier of this.tiers) {
+                tier.set(hash, cacheItem);
+            }
+        }
+    }
+
+    /** @inheritdoc */
+    public remove(hash: string): ICacheItem | undefined {
+        this._dirty.delete(hash);
+        let removed: ICacheItem | undefined;
+        for (const tier of this.tiers) {
+            removed = tier.remove(hash) || removed;
+        }
+
+        return removed;
+    }
+
+    /** @inheritdoc */
+    public clear(): void {
+        this._dirty.clear();
+        for (const tier of this.tiers) {
+            tier.clear();
+        }
+    }
+
+    /** @inheritdoc */
+    public entries(): [string, ICacheItem][] {
+        // Items in faster tiers are newer in the write-back mode, so they take precedence
+        const entries = new Map<string, ICacheItem>();
+        for (const tier of this.tiers) {
+            for (const [hash, item] of tier.entries()) {
+                if (!entries.has(hash)) {
+                    entries.set(hash, item);
+                }
+            }
+        }
+
+        return [...entries];
+    }
+
+    /** @inheritdoc */
+    public touch(hash: string, cacheItem: ICacheItem): void {
+        for (const tier of this.tiers) {
+            if (tier.touch) {
+                tier.touch(hash, cacheItem);
+            }
+        }
+    }
+
+    /** @inheritdoc */
+    public addEvictionListener(listener: EvictionListener): void {
+        this._evictionListeners.push(listener);
+    }
+
+    /** @inheritdoc */
+    public useSerializer(serializer: ICacheSerializer): void {
+        for (const tier of this.tiers) {
+            if (tier.useSerializer) {
+                tier.useSerializer(serializer);
+            }
+        }
+    }
+
+    /**
+     * Writes items that have only been written to the first tier to other tiers, in the write-back mode.
+     */
+    public flush(): void {
+        for (const hash of this._dirty) {
+            const item = this.firstTier.get(hash);
+            if (item) {
+                this.writeBack(hash, item);
+            }
+        }
+
+        this._dirty.clear();
+    }
+
+    private get firstTier(): ICacheStorage {
+        return this.tiers[0] as ICacheStorage;
+    }
+
+    /**
+     * Writes an item to all tiers except the first one.
+     * @param hash A unique hash to identify a cache item.
+     * @param cacheItem The item to write.
+     */
+    private writeBack(hash: string, cacheItem: ICacheItem): void {
+        for (const tier of this.tiers.slice(1)) {
+            tier.set(hash, cacheItem);
+        }
+    }
+
+    /**
+     * Handles an item evicted by a tier. An item is only evicted from the tiered cache when no tier has it.
+     * @param index The index of the tier that evicted the item.
+     * @param hash The hash of the evicted item.
+     * @param cacheItem The evicted item.
+     */
+    private handleEviction(index: number, hash: string, cacheItem: ICacheItem): void {
+        if (index === 0 && this._dirty.delete(hash)) {
+            // The item has not been written to other tiers yet
+            this.writeBack(hash, cacheItem);
+        }
+
+        if (!this.has(hash)) {
+            for (const listener of this._evictionListeners) {
+                listener(hash, cacheItem);
+            }
+        }
+    }
+}
@@ -0,0 +1,145 @@
+import { ICacheItem } from "./cache-item";
+import { ICacheSerializer } from "./cache-serializer";
+import { EvictionListener } from "./cache-storage";
+import { PersistentCache } from "./persistent-cache";
+
+/**
+ * Determines whether an error is thrown because a web storage is full.
+ * @param error The error thrown by the web storage.
+ */
+function isQuotaExceeded(error: unknown): boolean {
+    const { name, code } = error as { name?: string, code?: number };
+    return name === "QuotaExceededError" || name === "NS_ERROR_DOM_QUOTA_REACHED" || code === 22 || code === 1014;
+}
+
+/**
+ * A cache storage which saves items to a web storage, i.e. localStorage or sessionStorage,
+ * so cached values survive page reloads. See @see PersistentCache for how values are saved.
+ * When the web storage is full, the oldest items are evicted to make room for new items.
+ */
+export class WebStorageCache extends PersistentCache {
+    private _evictionListeners: EvictionListener[] = [];
+
+    /**
+     * Creates a web storage cache.
+     * @param storage The web storage, e.g. localStorage or sessionStorage.
+     * @param namespace A prefix of keys in the web storage, so multiple caches can share the same web storage.
+     * @param serializer Converts items to text and back. Defaults to @see JsonCacheSerializer.
+     */
+    constructor(public readonly storage: Storage, public readonly namespace = "managed-cache", serializer?: ICacheSerializer) {
+        super(serializer);
+    }
+
+    /** @inheritdoc */
+    public addEvictionListener(listener: EvictionListener): void {
+        this._evictionListeners.push(listener);
+    }
+
+    /** @inheritdoc */
+    protected readText(hash: string): string | undefined {
+        const text = this.storage.getItem(this.getStorageKey(hash));
+        return text === null ? undefined : text;
+    }
+
+    /** @inheritdoc */
+    protected readAllTexts(): string[] {
+        const texts: string[] = [];
+        for (const storageKey of this.getStorageKeys()) {
+            const text = this.storage.getItem(storageKey);
+            if (text !== null) {
+                texts.push(text);
+            }
+        }
+
+        return texts;
+    }
+
+    /**
+     * Writes the text of an item. If the web storage is full, the oldest items are evicted until the item fits.
+     * If the item does not fit even when it is the only item, it is not saved.
+     * @param hash A unique hash to identify a cache item.
+     * @param text The text of the item.
+     */
+    protected writeText(hash: string, text: string): void {
+        const storageKey = this.getStorageKey(hash);
+        for (;;) {
+            try {
+                this.storage.setItem(storageKey, text);
+                return;
+            } catch (error) {
+                if (!isQuotaExceeded(error)) {
+                    throw error;
+                }
+
+                if (!this.evictOldest(hash)) {
+                    this.storage.removeItem(storageKey);
+                    return;
+                }
+            }
+        }
+    }
+
+    /** @inheritdoc */
+    protected deleteText(hash: string): void {
+        this.storage.removeItem(this.getStorageKey(hash));
+    }
+
+    /** @inheritdoc */
+    protected deleteAllTexts(): void {
+        for (const storageKey of this.getStorageKeys()) {
+            this.storage.removeItem(storageKey);
+        }
+    }
+
+    /**
+     * Evicts the item that was created first.
+     * @param excludedHash The hash of an item that must not be evicted, i.e. the item being saved.
+     * @returns True if an item was evicted; otherwise, false.
+     */
+    private evictOldest(excludedHash: string): boolean {
+        let oldest: [string, ICacheItem] | undefined;
+        for (const text of this.readAllTexts()) {
+            const record = this.parse(text);
+            if (record && record.hash !== excludedHash
+                && (!oldest || record.item.created < oldest[1].created)) {
+                oldest = [record.hash, this.revive(record)];
+            }
+        }
+
+        if (!oldest) {
+            return false;
+        }
+
+        const [hash, item] = oldest;
+        this.deleteText(hash);
+        for (const listener of this._evictionListeners) {
+            listener(hash, item);
+        }
+
+        return true;
+    }
+
+    /**
+     * Gets the key of an item in the web storage.
+     * @param hash A unique hash to identify a cache item.
+     */
+    private getStorageKey(hash: string): string {
+        return `${this.namespace}:${hash}`;
+    }
+
+    /**
+     * Gets the keys of all items of this cache in the web storage.
+     */
+    private getStorageKeys(): string[] {
+        const prefix = this.getStorageKey("");
+        const storageKeys: string[] = [];
+        for (let i = 0; i < this.storage.length; i++) {
+            const storageKey = this.storage.key(i);
+            if (storageKey !== null && storageKey.startsWith(prefix)) {
+                storageKeys.push(storageKey);
+            }
+        }
+
+        return storageKeys;
+    }
+}
@@ -0,0 +1,90 @@
+import { CacheManager } from "./cache-manager";
+
+/** A call of a wrapped function, as the manager that caches its result and its cache key. */
+export interface IWrappedCall {
+    manager: CacheManager;
+    key: unknown;
+}
+
+/** Calls of a function wrapped by a cache manager, which can be located or primed without calling the function. */
+export interface IWrappedFunction {
+    /**
+     * Gets the manager and the cache key of a call, without calling the function or reading the cache.
+     * @param thisParameter The 'this' parameter of the call.
+     * @param parameters The parameters of the call.
+     */
+    locate(thisParameter: unknown, parameters: unknown[]): IWrappedCall;
+
+    /**
+     * Calls the function without reading the cache, and caches its result.
+     * @param thisParameter The 'this' parameter of the call.
+     * @param parameters The parameters of the call.
+     */
+    prime(thisParameter: unknown, parameters: unknown[]): unknown;
+}
+
+/** Wrapped functions and decorated methods, including the ones bound to instances. */
+// eslint-disable-next-line @typescript-eslint/ban-types
+const wrappedFunctions = new WeakMap<Function, IWrappedFunction>();
+
+/**
+ * Registers a wrapped function. Functions bound by its `bind` method are registered too,
+ * so decorated methods can be located when they are bound to instances.
+ * @param wrapped The wrapped function.
+ * @param wrappedFunction How calls of the function are located and primed.
+ */
+// eslint-disable-next-line @typescript-eslint/ban-types
+export function registerWrapped(wrapped: Function, wrappedFunction: IWrappedFunction): void {
+    wrappedFunctions.set(wrapped, wrappedFunction);
+    Object.defineProperty(wrapped, "bind", {
+        configurable: true,
+        writable: true,
+        // eslint-disable-next-line @typescript-eslint/ban-types
+        value: function (this: Function, thisParameter: unknown, ...boundParameters: unknown[]): Function {
+            const bound = Function.prototype.bind.call(this, thisParameter, ...boundParameters);
+            registerWrapped(bound, {
+                locate: (_, parameters) => wrappedFunction.locate(thisParameter, [...boundParameters, ...parameters]),
+                prime: (_, parameters) => wrappedFunction.prime(thisParameter, [...boundParameters, ...parameters])
+            });
+            return bound;
+        }
+    });
+}
+
+/**
+ * Registers a function that calls a wrapped function, which is resolved when it is needed, e.g. a decorated method
+ * whose manager is registered later.
+ * @param wrapper The function that calls the wrapped function.
+ * @param resolve A function that resolves the wrapped function for the 'this' parameter of a call.
+ */
+// eslint-disable-next-line @typescript-eslint/ban-types
+export function registerWrapper(wrapper: Function, resolve: (thisParameter: unknown) => Function): void {
+    registerWrapped(wrapper, {
+        locate: (thisParameter, parameters) => getWrapped(resolve(thisParameter)).locate(thisParameter, parameters),
+        prime: (thisParameter, parameters) => getWrapped(resolve(thisParameter)).prime(thisParameter, parameters)
+    });
+}
+
+/**
+ * Finds a wrapped function, without calling it.
+ * @param wrapped A function wrapped by a cache manager, or a decorated method.
+ * @returns How calls of the function are located and primed, or undefined if the function is not wrapped.
+ */
+// eslint-disable-next-line @typescript-eslint/ban-types
+export function findWrapped(wrapped: Function): IWrappedFunction | undefined {
+    return wrappedFunctions.get(wrapped);
+}
+
+/**
+ * Gets a wrapped function, without calling it. An error is thrown if the function is not wrapped.
+ * @param wrapped A function wrapped by a cache manager, or a decorated method.
+ */
+// eslint-disable-next-line @typescript-eslint/ban-types
+export function getWrapped(wrapped: Function): IWrappedFunction {
+    const wrappedFunction = wrappedFunctions.get(wrapped);
+    if (!wrappedFunction) {
+        throw new Error(`${wrapped.name || "The function"} is not wrapped by a cache manager.`);
+    }
+
+    return wrappedFunction;
+}
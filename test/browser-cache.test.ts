@@ -0,0 +1,187 @@
+import { indexedDB } from "fake-indexeddb";
+import { CacheManager } from "../src/cache-manager";
+import { IndexedDbCache } from "../src/indexed-db-cache";
+import { JsonCacheSerializer } from "../src/json-cache-serializer";
+import { WebStorageCache } from "../src/web-storage-cache";
+
+/** An in-memory web storage, which is full when its total length exceeds the quota. */
+class MemoryStorage implements Storage {
+    private _items = new Map<string, string>();
+
+    constructor(private _quota = Infinity) { }
+
+    public get length(): number {
+        return this._items.size;
+    }
+
+    public key(index: number): string | null {
+        const key = [...this._items.keys()][index];
+        return key === undefined ? null : key;
+    }
+
+    public getItem(key: string): string | null {
+        const value = this._items.get(key);
+        return value === undefined ? null : value;
+    }
+
+    public setItem(key: string, value: string): void {
+        let length = key.length + value.length;
+        for (const [otherKey, otherValue] of this._items) {
+            if (otherKey !== key) {
+                length += otherKey.length + otherValue.length;
+            }
+        }
+
+        if (length > this._quota) {
+            const error = new Error("The quota has been exceeded.");
+            error.name = "QuotaExceededError";
+            throw error;
+        }
+
+        this._items.set(key, value);
+    }
+
+    public removeItem(key: string): void {
+        this._items.delete(key);
+    }
+
+    public clear(): void {
+        this._items.clear();
+    }
+}
+
+async function wait(duration: number): Promise<void> {
+    return new Promise(resolve => {
+        setTimeout(() => resolve(), duration);
+    });
+}
+
+test("Restore cached data from web storage", async () => {
+    const storage = new MemoryStorage();
+    const manager = new CacheManager(new WebStorageCache(storage));
+    const load = async (name: string): Promise<string> => name;
+    await manager.wrap(load, { context: "context" })("foobar");
+
+    const restored = new CacheManager(new WebStorageCache(storage));
+    expect(await restored.get([load.name, ["foobar"]])).toBe("foobar");
+    restored.removeContext("context");
+    expect(manager.has([load.name, ["foobar"]])).toBe(false);
+});
+
+test("Isolate web storage caches by namespace", () => {
+    const storage = new MemoryStorage();
+    const x = new CacheManager(new WebStorageCache(storage, "x"));
+    const y = new CacheManager(new WebStorageCache(storage, "y"));
+    x.set("key", 1);
+    y.set("key", 2);
+    y.clear();
+    expect(x.get("key")).toBe(1);
+    expect(y.get("key")).toBeUndefined();
+});
+
+test("Evict oldest items when web storage is full", async () => {
+    const manager = new CacheManager(new WebStorageCache(new MemoryStorage(800)));
+    const evicted: unknown[] = [];
+    manager.on("evict", ({ cacheItem }) => evicted.push(cacheItem.key));
+    manager.set("a", "1".repeat(100));
+    await wait(2);
+    manager.set("b", "2".repeat(100));
+    await wait(2);
+    manager.set("c", "3".repeat(100));
+    expect(evicted).toEqual(["a"]);
+    expect(manager.has("a")).toBe(false);
+    expect(manager.has("b")).toBe(true);
+    expect(manager.has("c")).toBe(true);
+
+    manager.set("d", "4".repeat(1000));
+    expect(manager.has("d")).toBe(false);
+});
+
+test("Cache data in IndexedDB", async () => {
+    const manager = new CacheManager(new IndexedDbCache({ indexedDB, databaseName: "test" }));
+    let calls = 0;
+    const load = (name: string): { name: string } => {
+        calls++;
+        return { name };
+    };
+    const wrapped = manager.wrap(load, { context: "context" }) as unknown as (name: string) => Promise<{ name: string }>;
+    expect(await wrapped("foobar")).toEqual({ name: "foobar" });
+    expect(await wrapped("foobar")).toEqual({ name: "foobar" });
+    expect(calls).toBe(1);
+
+    const restored = new CacheManager(new IndexedDbCache({ indexedDB, databaseName: "test" }));
+    const cacheItem = await restored.getCacheItemAsync([load.name, ["foobar"]]);
+    expect(cacheItem && cacheItem.created).toBeInstanceOf(Date);
+    await restored.removeContextAsync("context");
+    expect(await manager.hasAsync([load.name, ["foobar"]])).toBe(false);
+});
+
+test("Isolate IndexedDB caches by namespace", async () => {
+    const x = new CacheManager(new IndexedDbCache({ indexedDB, databaseName: "test", namespace: "x" }));
+    const y = new CacheManager(new IndexedDbCache({ indexedDB, databaseName: "test", namespace: "y" }));
+    await x.setAsync("key", 1);
+    await y.setAsync("key", 2);
+    await y.clearAsync();
+    expect(await x.getAsync("key")).toBe(1);
+    expect(await y.getAsync("key")).toBeUndefined();
+});
+
+test("Save resolved promises and skip functions in IndexedDB", async () => {
+    const storage = new IndexedDbCache({ indexedDB, databaseName: "promises" });
+    const manager = new CacheManager(storage);
+    await manager.setAsync("promise", Promise.resolve("foobar"));
+    await manager.setAsync("function", () => 1);
+    await wait(10);
+
+    const entries = await storage.entries();
+    expect(entries.map(([hash]) => hash)).toEqual(["s:promise"]);
+    const cacheItem = await new CacheManager(storage).getCacheItemAsync("promise");
+    expect(cacheItem && cacheItem.value).toBeInstanceOf(Promise);
+});
+
+test("Cache errors of asynchronous functions in IndexedDB", async () => {
+    const serializer = new JsonCacheSerializer();
+    const manager = new CacheManager(new IndexedDbCache({ indexedDB, databaseName: "errors", serializer }));
+    let loads = 0;
+    const load = async (id: number): Promise<string> => {
+        loads++;
+        throw new Error(`Report ${id} failed`);
+    };
+
+    const wrapped = manager.wrap(load, { policy: { maxAge: 60000, errorMaxAge: 30000 } });
+    await expect(wrapped(1)).rejects.toThrow("Report 1 failed");
+    await wait(10);
+    await expect(wrapped(1)).rejects.toThrow("Report 1 failed");
+    expect(loads).toBe(1);
+
+    const restored = new CacheManager(new IndexedDbCache({ indexedDB, databaseName: "errors", serializer }));
+    const cacheItem = await restored.getCacheItemAsync([load.name, [1]]);
+    expect(cacheItem && cacheItem.maxAge).toBe(30000);
+    await expect(restored.wrap(load)(1)).rejects.toThrow("Report 1 failed");
+    expect(loads).toBe(1);
+});
+
+test("Serialize items in IndexedDB", async () => {
+    const serializer = new JsonCacheSerializer({ version: 1 });
+    const manager = new CacheManager(new IndexedDbCache({ indexedDB, databaseName: "serialized", serializer }));
+    await manager.setAsync("key", new Set([1, 2]));
+    await manager.setAsync("function", () => 1);
+    expect(await new CacheManager(new IndexedDbCache({ indexedDB, databaseName: "serialized", serializer })).getAsync("key"))
+        .toEqual(new Set([1, 2]));
+    expect(await manager.hasAsync("function")).toBe(false);
+
+    const other = new CacheManager(new IndexedDbCache({ indexedDB, databaseName: "serialized" }), {
+        serializer: new JsonCacheSerializer({ version: 2 })
+    });
+    expect(await other.hasAsync("key")).toBe(false);
+});
+
+test("Get, set and remove multiple items in IndexedDB", async () => {
+    const storage = new IndexedDbCache({ indexedDB, databaseName: "bulk" });
+    const manager = new CacheManager(storage);
+    await manager.setManyAsync([["a", 1], ["b", Promise.resolve(2)], ["c", () => 3]]);
+    await wait(10);
+    expect(await manager.getManyAsync(["a", "b", "c"])).toEqual([1, expect.any(Promise), undefined]);
+    expect(await manager.removeManyAsync(["a", "b", "c"])).toBe(2);
+    expect(await storage.entries()).toEqual([]);
+});
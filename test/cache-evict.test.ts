@@ -0,0 +1,138 @@
+import { cache, cacheEvict, cachePut } from "../src/cache-decorator";
+import { CacheManager } from "../src/cache-manager";
+import { MemoryCache } from "../src/memory-cache";
+
+interface IStudent {
+    id: number;
+    name: string;
+}
+
+const manager = new CacheManager(new MemoryCache());
+let loads = 0;
+
+class StudentService {
+    private _students = new Map<number, string>([[1, "foo"], [2, "bar"]]);
+
+    @cache({ manager, context: "students" })
+    public getStudent(id: number): IStudent {
+        loads++;
+        return { id, name: this._students.get(id) || "" };
+    }
+
+    @cache({ manager, key: id => id })
+    public async getStudentAsync(id: number, _log?: boolean): Promise<IStudent> {
+        loads++;
+        return { id, name: this._students.get(id) || "" };
+    }
+
+    @cacheEvict({ target: [StudentService, "getStudent"], keys: id => [[id]] })
+    public rename(id: number, name: string): void {
+        this._students.set(id, name);
+    }
+
+    @cacheEvict({ target: [StudentService, "getStudentAsync"] })
+    public async renameAsync(id: number, name: string): Promise<void> {
+        await Promise.resolve();
+        if (!name) {
+            throw new Error("A name is required.");
+        }
+
+        this._students.set(id, name);
+    }
+
+    @cacheEvict({ manager, context: "students", beforeInvocation: true })
+    public reset(): void {
+        throw new Error("Not supported.");
+    }
+
+    @cacheEvict({ target: [StudentService, "getStudent"], allEntries: true })
+    public removeAll(): void {
+        // Students are removed from another source
+    }
+
+    @cacheEvict({ target: () => [StudentService, "getStudent"], context: "students" })
+    public remove(id: number): void {
+        this._students.delete(id);
+    }
+
+    @cachePut({ target: [StudentService, "getStudentAsync"], key: student => [(student as IStudent).id] })
+    public async save(student: IStudent): Promise<IStudent> {
+        this._students.set(student.id, student.name);
+        return { ...student };
+    }
+}
+
+let service = new StudentService();
+
+beforeEach(() => {
+    service = new StudentService();
+    manager.clear();
+    loads = 0;
+});
+
+test("Remove cached results of a target after a method succeeds", () => {
+    expect(service.getStudent(1).name).toBe("foo");
+    expect(service.getStudent(2).name).toBe("bar");
+    service.rename(1, "baz");
+    expect(service.getStudent(1).name).toBe("baz");
+    expect(service.getStudent(2).name).toBe("bar");
+    expect(loads).toBe(3);
+
+    service.removeAll();
+    service.getStudent(1);
+    service.getStudent(2);
+    expect(loads).toBe(5);
+});
+
+test("Remove cached results before synchronous methods return", () => {
+    service.getStudent(1);
+    service.getStudent(2);
+    service.remove(1);
+    expect(manager.has([StudentService, "getStudent", 1])).toBe(false);
+    expect(manager.has([StudentService, "getStudent", 2])).toBe(false);
+});
+
+test("Remove cached results after promises resolve", async () => {
+    expect((await service.getStudentAsync(1)).name).toBe("foo");
+    await expect(service.renameAsync(1, "")).rejects.toThrow("A name is required.");
+    expect(loads).toBe(1);
+
+    const renaming = service.renameAsync(1, "baz");
+    expect(manager.keyOf(service.getStudentAsync.bind(service), 1, true)).toEqual([StudentService, "getStudentAsync", 1]);
+    expect(manager.has([StudentService, "getStudentAsync", 1])).toBe(true);
+    await renaming;
+    expect(manager.has([StudentService, "getStudentAsync", 1])).toBe(false);
+    expect((await service.getStudentAsync(1)).name).toBe("baz");
+});
+
+test("Remove contexts before a method is called", () => {
+    service.getStudent(1);
+    expect(() => service.reset()).toThrow("Not supported.");
+    service.getStudent(1);
+    expect(loads).toBe(2);
+});
+
+test("Write results to the cache of a target", async () => {
+    const saved = await service.save({ id: 3, name: "qux" });
+    expect(await service.getStudentAsync(3)).toEqual(saved);
+    expect(loads).toBe(0);
+});
+
+test("Reject targets that are not cached", () => {
+    class Other {
+        @cacheEvict({ target: [StudentService, "rename"] })
+        public update(): void {
+            // Nothing to update
+        }
+    }
+
+    expect(() => new Other().update()).toThrow("StudentService.rename is not decorated with @cache.");
+    class Putter {
+        @cachePut({ target: [StudentService, "rename"] })
+        public async update(): Promise<void> {
+            // Nothing to update
+        }
+    }
+
+    return expect(new Putter().update()).rejects.toThrow("StudentService.rename is not decorated with @cache.");
+});
@@ -0,0 +1,77 @@
+import { createCacheDecorator, removeInstanceCache } from "../src/cache-decorator";
+import { CacheManager, cacheManager } from "../src/cache-manager";
+import { getCacheManager, registerCacheManager } from "../src/cache-registry";
+import { MemoryCache } from "../src/memory-cache";
+
+test("Isolate namespaces of managers sharing a storage", () => {
+    const storage = new MemoryCache();
+    const app = new CacheManager(storage);
+    const library = new CacheManager(storage, { namespace: "library" });
+    app.set("key", 1, undefined, undefined, { context: "context" });
+    library.set("key", 2, undefined, undefined, { context: "context" });
+    expect(app.get("key")).toBe(1);
+    expect(library.get("key")).toBe(2);
+
+    app.removeContext("context");
+    expect(library.get("key")).toBe(2);
+
+    app.set("key", 1);
+    app.clear();
+    expect(library.get("key")).toBe(2);
+    library.clear();
+    expect(storage.entries()).toEqual([]);
+
+    // Contexts of existing items are only indexed by the manager of their namespace
+    library.set("key", 2, undefined, undefined, { context: "context" });
+    new CacheManager(storage).removeContext("context");
+    expect(new CacheManager(storage, { namespace: "library" }).get("key")).toBe(2);
+});
+
+test("Resolve named managers through the registry", () => {
+    const billing = getCacheManager("billing");
+    expect(getCacheManager("billing")).toBe(billing);
+    expect(billing.storage).toBe(cacheManager.storage);
+    billing.set("key", 1);
+    cacheManager.clear();
+    expect(billing.get("key")).toBe(1);
+
+    const reports = new CacheManager(new MemoryCache());
+    registerCacheManager("reports", reports);
+    expect(getCacheManager("reports")).toBe(reports);
+    expect(() => registerCacheManager("reports", reports)).toThrow();
+});
+
+test("Bind decorators to named managers", () => {
+    const cache = createCacheDecorator("decorated");
+    let calls = 0;
+
+    class Service {
+        @cache()
+        public load(id: number): number {
+            return id + ++calls;
+        }
+
+        @cache({ manager: cacheManager, scope: "instance" })
+        public loadDefault(id: number): number {
+            return id + ++calls;
+        }
+
+        @cache({ scope: "instance" })
+        public loadScoped(id: number): number {
+            return id + ++calls;
+        }
+    }
+
+    // The manager is resolved when a method is called for the first time
+    const decorated = new CacheManager(new MemoryCache());
+    registerCacheManager("decorated", decorated);
+    const service = new Service();
+    expect(service.load(1)).toBe(2);
+    expect(service.load(1)).toBe(2);
+    expect(decorated.has([Service, "load", 1])).toBe(true);
+
+    service.loadDefault(1);
+    service.loadScoped(1);
+    expect(removeInstanceCache(service)).toBe(2);
+    expect(service.loadScoped(1)).toBe(5);
+});
@@ -0,0 +1,228 @@
+import { AddressInfo } from "net";
+import { createServer, IncomingMessage, request, Server, ServerResponse } from "http";
+import { CacheManager } from "../src/cache-manager";
+import { createCachedFetch } from "../src/cached-fetch";
+import { IFetchRequestInit } from "../src/fetch-request-init";
+import { IFetchResponse } from "../src/fetch-response";
+import { MemoryCache } from "../src/memory-cache";
+import { ManualClock } from "../src/testing";
+
+interface IServerRequest {
+    method: string;
+    url: string;
+    headers: IncomingMessage["headers"];
+}
+
+let server: Server;
+let baseUrl: string;
+let requests: IServerRequest[];
+let version: number;
+
+/** Responds to a request, like a server whose resources have ETag, Last-Modified and Cache-Control headers. */
+function handle(req: IncomingMessage, res: ServerResponse): void {
+    requests.push({ method: req.method || "GET", url: req.url || "", headers: req.headers });
+    const etag = `"v${version}"`;
+    switch (req.url) {
+        case "/etag":
+            if (req.headers["if-none-match"] === etag) {
+                res.writeHead(304, { "Cache-Control": "max-age=120", "ETag": etag });
+                res.end();
+                return;
+            }
+
+            res.writeHead(200, { "Cache-Control": "max-age=60", "ETag": etag, "Content-Type": "application/json" });
+            res.end(JSON.stringify({ version }));
+            return;
+        case "/no-cache":
+            if (req.headers["if-modified-since"] === "Mon, 01 Jan 2024 00:00:00 GMT" && version === 1) {
+                res.writeHead(304);
+                res.end();
+                return;
+            }
+
+            res.writeHead(200, { "Cache-Control": "no-cache", "Last-Modified": "Mon, 01 Jan 2024 00:00:00 GMT" });
+            res.end(`version ${version}`);
+            return;
+        case "/no-store":
+            res.writeHead(200, { "Cache-Control": "no-store, max-age=60" });
+            res.end(`version ${version}`);
+            return;
+        case "/shared":
+            res.writeHead(200, { "Cache-Control": "max-age=10, s-maxage=100", "Age": "40" });
+            res.end(`version ${version}`);
+            return;
+        case "/aged":
+            if (req.headers["if-none-match"] === etag) {
+                res.writeHead(304, { "Cache-Control": "max-age=100", "ETag": etag });
+                res.end();
+                return;
+            }
+
+            res.writeHead(200, { "Cache-Control": "max-age=100", "Age": "40", "ETag": etag });
+            res.end(`version ${version}`);
+            return;
+        case "/vary":
+            res.writeHead(200, { "Cache-Control": "max-age=60", "Vary": "Accept-Language" });
+            res.end(String(req.headers["accept-language"]));
+            return;
+        default:
+            res.writeHead(404);
+            res.end();
+    }
+}
+
+/** Sends requests with the http module, since Jest does not provide the global fetch function. */
+function fetchWithHttp(url: string, init: IFetchRequestInit = {}): Promise<IFetchResponse> {
+    return new Promise((resolve, reject) => {
+        const req = request(url, { method: init.method || "GET", headers: init.headers || {} }, res => {
+            const chunks: Buffer[] = [];
+            res.on("data", (chunk: Buffer) => chunks.push(chunk));
+            res.on("error", reject);
+            res.on("end", () => {
+                const body = Buffer.concat(chunks);
+                resolve({
+                    status: res.statusCode || 0,
+                    statusText: res.statusMessage || "",
+                    headers: {
+                        get: name => {
+                            const value = res.headers[name.toLowerCase()];
+                            return value === undefined ? null : String(value);
+                        },
+                        forEach: callback => Object.entries(res.headers)
+                            .forEach(([name, value]) => value !== undefined && callback(String(value), name))
+                    },
+                    arrayBuffer: async () => body.buffer.slice(body.byteOffset, body.byteOffset + body.byteLength)
+                });
+            });
+        });
+        req.on("error", reject);
+        req.end(init.body);
+    });
+}
+
+function createFetch(): { clock: ManualClock; manager: CacheManager; fetch: ReturnType<typeof createCachedFetch> } {
+    const clock = new ManualClock();
+    const manager = new CacheManager(new MemoryCache(), { clock });
+    return { clock, manager, fetch: createCachedFetch({ manager, fetch: fetchWithHttp, context: "http" }) };
+}
+
+beforeAll(async () => {
+    server = createServer(handle);
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+beforeEach(() => {
+    requests = [];
+    version = 1;
+});
+
+test("Cache responses by max-age and revalidate them by ETag", async () => {
+    const { clock, manager, fetch } = createFetch();
+    const first = await fetch(`${baseUrl}/etag`);
+    expect(first.fromCache).toBe(false);
+    expect(await first.json()).toEqual({ version: 1 });
+
+    // The body is buffered, so it can be read again
+    expect(await first.text()).toBe("{\"version\":1}");
+    expect(first.headers.get("etag")).toBe("\"v1\"");
+
+    clock.advance(59 * 1000);
+    const cached = await fetch(`${baseUrl}/etag`);
+    expect(cached.fromCache).toBe(true);
+    expect(await cached.json()).toEqual({ version: 1 });
+    expect(requests).toHaveLength(1);
+
+    // After the response expires, a conditional request extends it with the max age of the 304 response
+    clock.advance(2 * 1000);
+    const revalidated = await fetch(`${baseUrl}/etag`);
+    expect(revalidated.fromCache).toBe(true);
+    expect(revalidated.status).toBe(200);
+    expect(await revalidated.json()).toEqual({ version: 1 });
+    expect(requests).toHaveLength(2);
+    expect(requests[1]?.headers["if-none-match"]).toBe("\"v1\"");
+    expect(manager.inspect(["fetch", "GET", `${baseUrl}/etag`, []])?.maxAge).toBe(120 * 1000);
+
+    clock.advance(119 * 1000);
+    await fetch(`${baseUrl}/etag`);
+    expect(requests).toHaveLength(2);
+
+    // A changed resource is downloaded again
+    version = 2;
+    clock.advance(2 * 1000);
+    const changed = await fetch(`${baseUrl}/etag`);
+    expect(changed.fromCache).toBe(false);
+    expect(await changed.json()).toEqual({ version: 2 });
+    expect(requests).toHaveLength(3);
+    expect(manager.contexts()).toEqual(["http"]);
+});
+
+test("Revalidate responses with no-cache before they are used", async () => {
+    const { fetch } = createFetch();
+    expect((await fetch(`${baseUrl}/no-cache`)).fromCache).toBe(false);
+
+    const revalidated = await fetch(`${baseUrl}/no-cache`);
+    expect(revalidated.fromCache).toBe(true);
+    expect(await revalidated.text()).toBe("version 1");
+    expect(requests[1]?.headers["if-modified-since"]).toBe("Mon, 01 Jan 2024 00:00:00 GMT");
+
+    version = 2;
+    const changed = await fetch(`${baseUrl}/no-cache`);
+    expect(changed.fromCache).toBe(false);
+    expect(await changed.text()).toBe("version 2");
+    expect(requests).toHaveLength(3);
+});
+
+test("Do not cache responses with no-store, or requests of other methods", async () => {
+    const { fetch } = createFetch();
+    await fetch(`${baseUrl}/no-store`);
+    expect((await fetch(`${baseUrl}/no-store`)).fromCache).toBe(false);
+
+    await fetch(`${baseUrl}/etag`, { method: "POST", body: "{}" });
+    expect((await fetch(`${baseUrl}/etag`, { method: "POST", body: "{}" })).fromCache).toBe(false);
+
+    // A request with no-store neither reads nor saves responses
+    await fetch(`${baseUrl}/etag`, { headers: { "Cache-Control": "no-store" } });
+    expect((await fetch(`${baseUrl}/etag`)).fromCache).toBe(false);
+    expect(requests).toHaveLength(6);
+});
+
+test("Prefer s-maxage and subtract the age of responses", async () => {
+    const { clock, fetch } = createFetch();
+    await fetch(`${baseUrl}/shared`);
+    clock.advance(59 * 1000);
+    expect((await fetch(`${baseUrl}/shared`)).fromCache).toBe(true);
+
+    clock.advance(2 * 1000);
+    expect((await fetch(`${baseUrl}/shared`)).fromCache).toBe(false);
+});
+
+test("Subtract the age of responses only once when they are revalidated", async () => {
+    const { clock, fetch } = createFetch();
+    await fetch(`${baseUrl}/aged`);
+    clock.advance(61 * 1000);
+    expect((await fetch(`${baseUrl}/aged`)).fromCache).toBe(true);
+    expect(requests).toHaveLength(2);
+
+    clock.advance(99 * 1000);
+    const cached = await fetch(`${baseUrl}/aged`);
+    expect(cached.fromCache).toBe(true);
+    expect(cached.headers.has("age")).toBe(false);
+    expect(requests).toHaveLength(2);
+});
+
+test("Cache responses by the request headers named by Vary", async () => {
+    const { fetch } = createFetch();
+    const read = async (language: string): Promise<string> =>
+        (await fetch(`${baseUrl}/vary`, { headers: { "Accept-Language": language } })).text();
+
+    expect(await read("en")).toBe("en");
+    expect(await read("en")).toBe("en");
+    expect(await read("fr")).toBe("fr");
+    expect(await read("fr")).toBe("fr");
+    expect(await read("en")).toBe("en");
+
+    expect(requests).toHaveLength(2);
+});
@@ -0,0 +1,98 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { cache } from "../src/cache-decorator";
+import { CacheManager } from "../src/cache-manager";
+import { FileCache } from "../src/node/file-cache";
+
+let directory: string;
+
+beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "managed-cache-"));
+});
+
+afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+});
+
+test("Restore cached data in another process", () => {
+    const manager = new CacheManager(new FileCache(directory));
+    manager.set(["key", 1], { name: "foobar" }, undefined, undefined, { context: "context", policy: { maxAge: 60000 } });
+
+    const restored = new CacheManager(new FileCache(directory));
+    const cacheItem = restored.getCacheItem(["key", 1]);
+    expect(cacheItem && cacheItem.value).toEqual({ name: "foobar" });
+    expect(cacheItem && cacheItem.created).toBeInstanceOf(Date);
+    expect(cacheItem && cacheItem.maxAge).toBe(60000);
+
+    restored.removeContext("context");
+    expect(manager.has(["key", 1])).toBe(false);
+});
+
+test("Save resolved values of promises", async () => {
+    const manager = new CacheManager(new FileCache(directory));
+    const load = async (name: string): Promise<string> => name;
+    const wrapped = manager.wrap(load);
+    expect(await wrapped("foobar")).toBe("foobar");
+
+    const restored = new CacheManager(new FileCache(directory));
+    const value = restored.get([load.name, ["foobar"]]);
+    expect(value).toBeInstanceOf(Promise);
+    expect(await value).toBe("foobar");
+});
+
+test("Save rejected promises only if they are kept", async () => {
+    const storage = new FileCache(directory);
+    const manager = new CacheManager(storage);
+    const rejected = Promise.reject(new Error("Rejected"));
+    const kept = Promise.reject(new Error("Kept"));
+    manager.set("rejected", rejected);
+    manager.set("kept", kept, undefined, undefined, { policy: { maxAge: 60000, keepRejectedPromise: true } });
+    manager.set("function", () => 1);
+    await expect(rejected).rejects.toThrow();
+    await expect(kept).rejects.toThrow();
+    expect(fs.readdirSync(directory)).toHaveLength(1);
+    expect(storage.entries().map(([hash]) => hash)).toEqual(["s:kept"]);
+
+    const restored = new CacheManager(new FileCache(directory));
+    await expect(restored.get("kept")).rejects.toThrow("Kept");
+});
+
+test("Cache errors of asynchronous functions for their max age", async () => {
+    const manager = new CacheManager(new FileCache(directory));
+    let loads = 0;
+    const load = async (id: number): Promise<string> => {
+        loads++;
+        throw new Error(`Report ${id} failed`);
+    };
+
+    const wrapped = manager.wrap(load, { policy: { maxAge: 60000, errorMaxAge: 30000 } });
+    await expect(wrapped(1)).rejects.toThrow("Report 1 failed");
+    await expect(wrapped(1)).rejects.toThrow("Report 1 failed");
+    expect(loads).toBe(1);
+
+    const restored = new CacheManager(new FileCache(directory));
+    const cacheItem = restored.getCacheItem([load.name, [1]]);
+    expect(cacheItem && cacheItem.maxAge).toBe(30000);
+    await expect(restored.wrap(load)(1)).rejects.toThrow("Report 1 failed");
+    expect(loads).toBe(1);
+});
+
+test("Save results of decorated methods", () => {
+    const manager = new CacheManager(new FileCache(directory));
+    let loads = 0;
+    class ReportService {
+        @cache({ manager, policy: { maxAge: 60000 } })
+        public getReport(id: number): string {
+            loads++;
+            return `report ${id}`;
+        }
+    }
+
+    expect(new ReportService().getReport(1)).toBe("report 1");
+    expect(fs.readdirSync(directory)).toHaveLength(1);
+
+    const restored = new CacheManager(new FileCache(directory));
+    expect(restored.get([ReportService, "getReport", 1])).toBe("report 1");
+    expect(loads).toBe(1);
+});
@@ -0,0 +1,122 @@
+import { Worker } from "worker_threads";
+import { CacheManager } from "../src/cache-manager";
+import { IInvalidationMessage } from "../src/invalidation-message";
+import { IInvalidationTransport } from "../src/invalidation-transport";
+import { MemoryCache } from "../src/memory-cache";
+import { WorkerInvalidationTransport } from "../src/node/worker-invalidation-transport";
+
+/** Creates transports that deliver messages to all subscribers synchronously, including the sender. */
+function createHub(): { published: IInvalidationMessage[]; connect: () => IInvalidationTransport } {
+    const listeners = new Set<(message: IInvalidationMessage) => void>();
+    const published: IInvalidationMessage[] = [];
+    const connect = (): IInvalidationTransport => ({
+        publish: message => {
+            published.push(message);
+            listeners.forEach(listener => listener(message));
+        },
+        subscribe: listener => {
+            listeners.add(listener);
+            return () => listeners.delete(listener);
+        }
+    });
+    return { published, connect };
+}
+
+function waitForInvalidation(manager: CacheManager): Promise<IInvalidationMessage> {
+    return new Promise(resolve => {
+        const listener = ({ message }: { message: IInvalidationMessage }): void => {
+            manager.off("invalidate", listener);
+            resolve(message);
+        };
+        manager.on("invalidate", listener);
+    });
+}
+
+test("Remove items of peers", () => {
+    const hub = createHub();
+    const [a, b] = [0, 1].map(() => new CacheManager(new MemoryCache(), { transport: hub.connect() })) as [CacheManager, CacheManager];
+    const other = new CacheManager(new MemoryCache(), { transport: hub.connect(), namespace: "other" });
+    for (const manager of [a, b, other]) {
+        manager.set("x", 1);
+        manager.set(["y"], 2, undefined, undefined, { context: "school:1/class:2" });
+        manager.set("z", 3, undefined, undefined, { context: "z" });
+    }
+
+    a.remove("x");
+    expect(b.has("x")).toBe(false);
+    a.removeContextPrefix("school:1/");
+    expect(b.has(["y"])).toBe(false);
+    b.removeContext("z");
+    expect(a.has("z")).toBe(false);
+
+    // Received removals are not sent again
+    expect(hub.published.map(({ origin, kind }) => [origin, kind])).toEqual([
+        [a.origin, "remove"], [a.origin, "removeContextPrefix"], [b.origin, "removeContexts"]
+    ]);
+    expect(other.has("x") && other.has(["y"]) && other.has("z")).toBe(true);
+
+    b.set("x", 1);
+    a.clear();
+    expect(b.has("x")).toBe(false);
+    a.set("w", 1);
+    other.clear();
+    expect(a.has("w")).toBe(true);
+
+    b.close();
+    a.set("x", 1);
+    b.set("x", 1);
+    a.remove("x");
+    expect(b.has("x")).toBe(true);
+});
+
+test("Keep items of peers when a manager is disabled", async () => {
+    const hub = createHub();
+    const [a, b] = [0, 1].map(() => new CacheManager(new MemoryCache(), { transport: hub.connect() })) as [CacheManager, CacheManager];
+    a.set("x", 1);
+    b.set("x", 1);
+    a.setMode("disabled");
+    expect(a.storage.entries()).toEqual([]);
+    expect(b.has("x")).toBe(true);
+
+    a.setMode("normal");
+    a.set("x", 1);
+    await b.setModeAsync("disabled");
+    expect(b.storage.entries()).toEqual([]);
+    expect(a.has("x")).toBe(true);
+    expect(hub.published).toEqual([]);
+});
+
+test("Remove items of peers in other threads", async () => {
+    const channel = "managed-cache-test";
+
+    // The worker forwards messages between the main thread and the channel
+    const worker = new Worker(`
+        const { BroadcastChannel, parentPort } = require("worker_threads");
+        const channel = new BroadcastChannel("${channel}");
+        channel.onmessage = ({ data }) => parentPort.postMessage(data);
+        parentPort.on("message", message => message === "close" ? channel.close() : channel.postMessage(message));
+        parentPort.postMessage("ready");
+    `, { eval: true });
+    const received: IInvalidationMessage[] = [];
+    await new Promise(resolve => worker.once("message", resolve));
+    worker.on("message", message => received.push(message));
+
+    const transport = new WorkerInvalidationTransport(channel);
+    const manager = new CacheManager(new MemoryCache(), { transport });
+    try {
+        manager.set("x", 1, undefined, undefined, { context: "c" });
+        const invalidation = waitForInvalidation(manager);
+        worker.postMessage({ origin: "peer", kind: "removeContexts", contexts: ["c"] });
+        expect(await invalidation).toMatchObject({ origin: "peer" });
+        expect(manager.has("x")).toBe(false);
+
+        manager.remove("x");
+        await new Promise(resolve => setTimeout(resolve, 50));
+        expect(received).toEqual([{ origin: manager.origin, kind: "remove", hashes: ["s:x"] }]);
+    } finally {
+        manager.close();
+        transport.close();
+        worker.postMessage("close");
+        await worker.terminate();
+    }
+});
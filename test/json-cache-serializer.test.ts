@@ -0,0 +1,95 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ICacheRecord } from "../src/cache-record";
+import { CacheManager } from "../src/cache-manager";
+import { JsonCacheSerializer } from "../src/json-cache-serializer";
+import { FileCache } from "../src/node/file-cache";
+import { gzipCompression } from "../src/node/gzip-compression";
+
+/** BigInt and BigInt64Array, which are not declared by the target library. */
+const { BigInt, BigInt64Array } = globalThis as unknown as {
+    BigInt: (value: string | number) => bigint;
+    BigInt64Array: new (values: bigint[]) => ArrayLike<bigint>;
+};
+
+/**
+ * Creates a record of a value.
+ * @param value The cached value.
+ */
+function createRecord(value: unknown): ICacheRecord {
+    const now = new Date();
+    return { hash: "s:key", item: { key: "key", value, created: now, accessed: now } };
+}
+
+test("Round-trip values which are not supported by JSON", () => {
+    const serializer = new JsonCacheSerializer();
+    const value = {
+        date: new Date(1000),
+        map: new Map<unknown, unknown>([["a", 1], [new Date(2000), new Set([BigInt(1)])]]),
+        set: new Set(["a", "b"]),
+        bigint: BigInt("12345678901234567890"),
+        bytes: new Uint8Array([1, 2, 3]),
+        floats: new Float64Array([0.5, NaN]),
+        bigints: new BigInt64Array([BigInt(-1)]),
+        buffer: new Uint16Array([1, 2]).buffer,
+        missing: undefined,
+        numbers: [NaN, Infinity, -Infinity, undefined],
+        $type: "Date"
+    };
+    const text = serializer.serialize(createRecord(value));
+    const record = serializer.deserialize(text as string);
+    expect(record && record.item.value).toEqual(value);
+    expect(record && record.item.created).toBeInstanceOf(Date);
+});
+
+test("Round-trip errors", () => {
+    const serializer = new JsonCacheSerializer();
+    const record = serializer.deserialize(serializer.serialize(createRecord(new RangeError("Failed"))) as string);
+    const error = record && record.item.value as Error;
+    expect(error).toBeInstanceOf(Error);
+    expect(error && error.name).toBe("RangeError");
+    expect(error && error.message).toBe("Failed");
+});
+
+test("Never serialize functions and circular references", () => {
+    const serializer = new JsonCacheSerializer();
+    const circular: { self?: unknown } = {};
+    circular.self = circular;
+    expect(serializer.serialize(createRecord(() => 1))).toBeUndefined();
+    expect(serializer.serialize(createRecord({ load: () => 1 }))).toBeUndefined();
+    expect(serializer.serialize(createRecord(circular))).toBeUndefined();
+
+    // Class constructors in keys of decorated methods are dropped
+    const record = createRecord(1);
+    record.item.key = [JsonCacheSerializer, "method"];
+    record.item.policyKey = [JsonCacheSerializer, "method"];
+    const deserialized = serializer.deserialize(serializer.serialize(record) as string);
+    expect(deserialized && deserialized.item.key).toEqual([null, "method"]);
+    expect(deserialized && deserialized.item.policyKey).toEqual([null, "method"]);
+});
+
+test("Ignore records of other versions and compressions", () => {
+    const text = new JsonCacheSerializer({ version: 1 }).serialize(createRecord("value")) as string;
+    expect(new JsonCacheSerializer({ version: 2 }).deserialize(text)).toBeUndefined();
+    expect(new JsonCacheSerializer().deserialize(text)).toBeUndefined();
+    expect(new JsonCacheSerializer({ version: 1, compression: gzipCompression }).deserialize(text)).toBeUndefined();
+    expect(new JsonCacheSerializer().deserialize("not json")).toBeUndefined();
+});
+
+test("Compress records saved by storages", () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), "managed-cache-"));
+    try {
+        const serializer = new JsonCacheSerializer({ version: "v1", compression: gzipCompression });
+        const manager = new CacheManager(new FileCache(directory), { serializer });
+        manager.set("key", new Map([["a", "b".repeat(1000)]]));
+        const [fileName] = fs.readdirSync(directory);
+        expect(fs.statSync(path.join(directory, fileName as string)).size).toBeLessThan(500);
+
+        const restored = new CacheManager(new FileCache(directory, serializer));
+        expect(restored.get("key")).toEqual(new Map([["a", "b".repeat(1000)]]));
+        expect(new CacheManager(new FileCache(directory)).has("key")).toBe(false);
+    } finally {
+        fs.rmSync(directory, { recursive: true, force: true });
+    }
+});
@@ -0,0 +1,79 @@
+import { ICacheItem } from "../src/cache-item";
+import { CacheManager } from "../src/cache-manager";
+import { MemoryCache } from "../src/memory-cache";
+
+function createItem(key: string, accessed = 0, value: unknown = key): ICacheItem {
+    return { key, value, created: new Date(0), accessed: new Date(accessed) };
+}
+
+test("Evict least recently used items", () => {
+    const storage = new MemoryCache({ maxEntries: 2 });
+    storage.set("a", createItem("a"));
+    storage.set("b", createItem("b"));
+    storage.get("a");
+    storage.set("c", createItem("c"));
+    expect(storage.has("a")).toBe(true);
+    expect(storage.has("b")).toBe(false);
+    expect(storage.has("c")).toBe(true);
+});
+
+test("Never count checks of items as uses", () => {
+    const manager = new CacheManager(new MemoryCache({ maxEntries: 2, evictionStrategy: "lfu" }));
+    manager.set("a", 1);
+    manager.set("b", 2);
+    manager.get("b");
+    expect(manager.has("a")).toBe(true);
+    expect(manager.inspect("a")).toBeDefined();
+    manager.set("c", 3);
+    expect(manager.has("a")).toBe(false);
+
+    const lru = new CacheManager(new MemoryCache({ maxEntries: 2 }));
+    lru.set("a", 1);
+    lru.set("b", 2);
+    expect(lru.has("a")).toBe(true);
+    lru.set("c", 3);
+    expect(lru.has("a")).toBe(false);
+    expect(lru.has("b")).toBe(true);
+});
+
+test("Evict least frequently used items", () => {
+    const storage = new MemoryCache({ maxEntries: 2, evictionStrategy: "lfu" });
+    storage.set("a", createItem("a"));
+    storage.set("b", createItem("b"));
+    storage.get("a");
+    storage.set("c", createItem("c"));
+    expect(storage.has("a")).toBe(true);
+    expect(storage.has("b")).toBe(false);
+    expect(storage.has("c")).toBe(true);
+});
+
+test("Evict first saved items", () => {
+    const storage = new MemoryCache({ maxEntries: 2, evictionStrategy: "fifo" });
+    storage.set("a", createItem("a", 3));
+    storage.set("b", createItem("b", 2));
+    storage.set("a", createItem("a", 3));
+    storage.set("c", createItem("c", 1));
+    expect(storage.has("a")).toBe(true);
+    expect(storage.has("b")).toBe(false);
+    expect(storage.has("c")).toBe(true);
+});
+
+test("Evict items when total size exceeds limit", () => {
+    const storage = new MemoryCache({ maxSize: 10, sizeOf: item => (item.value as string).length });
+    storage.set("a", createItem("a", 1, "12345"));
+    storage.set("b", createItem("b", 2, "1234"));
+    storage.set("c", createItem("c", 3, "12"));
+    expect(storage.has("a")).toBe(false);
+    expect(storage.has("b")).toBe(true);
+    expect(storage.has("c")).toBe(true);
+    storage.set("d", createItem("d", 4, "12345678901"));
+    expect(storage.has("d")).toBe(false);
+});
+
+test("Remove evicted items from their contexts", () => {
+    const manager = new CacheManager(new MemoryCache({ maxEntries: 1 }));
+    manager.set("a", 1, undefined, undefined, { context: "context" });
+    manager.set("b", 2);
+    expect(manager.has("a")).toBe(false);
+    expect(manager["_contexts"]["context"]).toBeUndefined();
+});
@@ -0,0 +1,91 @@
+import { cache } from "../src/cache-decorator";
+import { CacheManager } from "../src/cache-manager";
+import { MemoryCache } from "../src/memory-cache";
+import { runWithCacheMode } from "../src/node/cache-mode-scope";
+import { ManualClock } from "../src/testing";
+
+const clock = new ManualClock();
+const manager = new CacheManager(new MemoryCache(), { clock });
+
+class ReportService {
+    @cache({ manager, policy: { maxAge: 1000 } })
+    public getReport(id: number): string {
+        return `report ${id}:${clock.now().valueOf()}`;
+    }
+
+    @cache({ manager, context: "summaries", policy: { maxAge: 1000 } })
+    public getSummary(id: number): string {
+        return `summary ${id}:${clock.now().valueOf()}`;
+    }
+}
+
+afterEach(() => {
+    manager.clearPolicyRules();
+    manager.setMode("normal");
+    manager.clear();
+});
+
+test("Find policies by rules", () => {
+    manager.loadPolicyConfig(JSON.stringify({
+        rules: [
+            { class: "Report*", method: "getRep?rt", policy: { maxAge: 5000 } },
+            { context: "sum*", policy: { maxAge: 10000 } },
+            { policyKey: "users:*", policy: { maxAge: 20000 } }
+        ]
+    }));
+    const service = new ReportService();
+    const getUser = manager.wrap((id: number) => ({ id }), { policyKey: "users:admin" });
+    service.getReport(1);
+    service.getSummary(1);
+    getUser(1);
+
+    expect(manager.inspect([ReportService, "getReport", 1])?.maxAge).toBe(5000);
+    expect(manager.inspect([ReportService, "getSummary", 1])?.maxAge).toBe(10000);
+    expect(manager.inspect(manager.keyOf(getUser, 1))?.maxAge).toBe(20000);
+
+    // A policy set for the exact policy key takes precedence over rules
+    manager.setCachePolicy([ReportService, "getReport"], { maxAge: 2000 });
+    service.getReport(2);
+    expect(manager.inspect([ReportService, "getReport", 2])?.maxAge).toBe(2000);
+});
+
+test("Bypass the cache, or only read it", () => {
+    const service = new ReportService();
+    const first = service.getReport(1);
+    clock.advance(1);
+
+    manager.setMode("readOnly");
+    expect(service.getReport(1)).toBe(first);
+    service.getReport(2);
+    expect(manager.has([ReportService, "getReport", 2])).toBe(false);
+
+    manager.setMode("bypass");
+    expect(service.getReport(1)).not.toBe(first);
+    expect(manager.get([ReportService, "getReport", 1])).toBeUndefined();
+
+    manager.setMode("normal");
+    expect(service.getReport(1)).toBe(first);
+
+    manager.setMode("disabled");
+    manager.setMode("normal");
+    expect(service.getReport(1)).not.toBe(first);
+});
+
+test("Set the mode per request", async () => {
+    const service = new ReportService();
+    const first = service.getReport(1);
+    clock.advance(1);
+
+    const bypassed = await runWithCacheMode("bypass", async () => {
+        await Promise.resolve();
+        return service.getReport(1);
+    });
+    expect(bypassed).not.toBe(first);
+    expect(service.getReport(1)).toBe(first);
+
+    // A scope cannot cache more than its manager
+    manager.setMode("readOnly");
+    runWithCacheMode("normal", () => service.getReport(3));
+    expect(manager.has([ReportService, "getReport", 3])).toBe(false);
+    CacheManager.useModeScope(undefined);
+});
@@ -0,0 +1,120 @@
+import { CacheManager } from "../src/cache-manager";
+import { MemoryCache } from "../src/memory-cache";
+import { ManualClock } from "../src/testing";
+
+test("Reject and remove loads that time out", async () => {
+    const manager = new CacheManager(new MemoryCache());
+    let aborted: AbortSignal | undefined;
+    const hang = (id: number, signal?: AbortSignal): Promise<number> => new Promise(resolve => {
+        aborted = signal;
+        if (id === 1) {
+            setTimeout(() => resolve(id), 5);
+        }
+    });
+    const load = manager.wrap(hang, { policy: { maxAge: 1000, loadTimeout: 20, signalIndex: 1 } });
+
+    await expect(load(1)).resolves.toBe(1);
+    expect(aborted?.aborted).toBe(false);
+
+    const pending = load(2);
+    expect(manager.has(manager.keyOf(load, 2))).toBe(true);
+    await expect(pending).rejects.toMatchObject({ name: "TimeoutError" });
+    expect(aborted?.aborted).toBe(true);
+    expect(manager.has(manager.keyOf(load, 2))).toBe(false);
+
+    // Optional parameters never receive signals, unless they are chosen by the policy
+    let received: unknown[] = [];
+    const wait = (id: string, options?: object, signal?: AbortSignal): Promise<number> => {
+        received = [id, options, signal];
+        return Promise.resolve(1);
+    };
+    await expect(manager.wrap(wait, { policy: { maxAge: 1000, loadTimeout: 20 } })("a")).resolves.toBe(1);
+    expect(received).toEqual(["a", undefined, undefined]);
+
+    await expect(manager.wrap(wait, { policy: { maxAge: 1000, loadTimeout: 20, signalIndex: 2 } })("b")).resolves.toBe(1);
+    expect(received[1]).toBeUndefined();
+    expect(received[2]).toBeInstanceOf(AbortSignal);
+});
+
+test("Stop calling a failing origin while its circuit is open", async () => {
+    const clock = new ManualClock();
+    const manager = new CacheManager(new MemoryCache(), { clock });
+    manager.setCachePolicy("users", { maxAge: 1000, circuitBreaker: { failureThreshold: 2, coolDown: 5000 } });
+    let calls = 0;
+    let failing = true;
+    const load = manager.wrap(async (id: number) => {
+        calls++;
+        if (failing) {
+            throw new Error("Unavailable");
+        }
+
+        return id;
+    }, { policyKey: "users" });
+
+    await expect(load(1)).rejects.toThrow("Unavailable");
+    await expect(load(2)).rejects.toThrow("Unavailable");
+    await expect(load(3)).rejects.toMatchObject({ name: "CircuitOpenError" });
+    expect(calls).toBe(2);
+
+    // After the cool-down, a single call tests the origin, and opens the circuit again if it fails
+    clock.advance(5000);
+    await expect(load(4)).rejects.toThrow("Unavailable");
+    await expect(load(5)).rejects.toMatchObject({ name: "CircuitOpenError" });
+    expect(calls).toBe(3);
+
+    failing = false;
+    clock.advance(5000);
+    await expect(load(6)).resolves.toBe(6);
+    await expect(load(7)).resolves.toBe(7);
+    expect(calls).toBe(5);
+});
+
+test("Return the last good value while the origin is failing", async () => {
+    const clock = new ManualClock();
+    const manager = new CacheManager(new MemoryCache(), { clock });
+    let failing = false;
+    let version = 0;
+    const load = manager.wrap((id: number) => {
+        if (failing) {
+            throw new Error("Unavailable");
+        }
+
+        return `${id}:${++version}`;
+    }, { policy: { maxAge: 100, fallbackToStale: true, circuitBreaker: { failureThreshold: 1, coolDown: 1000 } } });
+
+    expect(load(1)).toBe("1:1");
+    failing = true;
+    clock.advance(10000);
+    expect(load(1)).toBe("1:1");
+
+    // The circuit is open, the stale value is returned without calling the origin
+    expect(load(1)).toBe("1:1");
+    expect(() => load(2)).toThrow("circuit breaker");
+
+    failing = false;
+    clock.advance(1000);
+    expect(load(1)).toBe("1:2");
+});
+
+test("Fall back to stale values of rejected promises for a period", async () => {
+    const clock = new ManualClock();
+    const manager = new CacheManager(new MemoryCache(), { clock });
+    let failing = false;
+    const load = manager.wrap(async (id: number) => {
+        if (failing) {
+            throw new Error("Unavailable");
+        }
+
+        return id;
+    }, { policy: { maxAge: 100, fallbackToStale: 1000 } });
+
+    await expect(load(1)).resolves.toBe(1);
+    failing = true;
+    clock.advance(500);
+    await expect(load(1)).resolves.toBe(1);
+
+    // The stale value is kept after the failure, until the period ends
+    await expect(load(1)).resolves.toBe(1);
+    clock.advance(1000);
+    await expect(load(1)).rejects.toThrow("Unavailable");
+});
@@ -1,5 +1,10 @@
-import { cache } from "../src/cache-decorator";
-import { cacheManager } from "../src/cache-manager";
+import { cache, removeInstanceCache, removeInstanceCacheAsync } from "../src/cache-decorator";
+import { IAsyncCacheStorage } from "../src/async-cache-storage";
+import { ICacheItem } from "../src/cache-item";
+import { CacheManager, cacheManager } from "../src/cache-manager";
+import { jsonKeyHasher, objectKeyHasher } from "../src/key-hasher";
+import { MemoryCache } from "../src/memory-cache";
+import { ManualClock } from "../src/testing";
 
 const testName = "foobar";
 function getMaxAge(name: unknown): number {
@@ -205,3 +210,678 @@ test("Wrap a function", async () => {
     const another = wrapped(testName + 1, 10);
     expect(another).not.toEqual(data);
 });
+
+class AsyncMemoryCache implements IAsyncCacheStorage {
+    private _cache = new MemoryCache();
+
+    public async get(hash: string): Promise<ICacheItem | undefined> {
+        return this._cache.get(hash);
+    }
+
+    public async set(hash: string, cacheItem: ICacheItem): Promise<void> {
+        this._cache.set(hash, cacheItem);
+    }
+
+    public async has(hash: string): Promise<boolean> {
+        return this._cache.has(hash);
+    }
+
+    public async remove(hash: string): Promise<ICacheItem | undefined> {
+        return this._cache.remove(hash);
+    }
+
+    public async clear(): Promise<void> {
+        this._cache.clear();
+    }
+
+    public async entries(): Promise<[string, ICacheItem][]> {
+        return this._cache.entries();
+    }
+}
+
+test("Wrap a function with asynchronous storage", async () => {
+    const manager = new CacheManager(new AsyncMemoryCache());
+    const wrapped = manager.wrap(getData) as unknown as (name: string, count: number) => Promise<unknown>;
+    const data = await wrapped(testName, 10);
+    const cached = await wrapped(testName, 10);
+    expect(cached).toBe(data);
+    expect(await manager.hasAsync([getData.name, [testName, 10]])).toBe(true);
+    expect(await manager.removeAsync([getData.name, [testName, 10]])).toBe(true);
+    expect(await wrapped(testName, 10)).not.toBe(data);
+});
+
+test("Asynchronous storage requires asynchronous methods", async () => {
+    const manager = new CacheManager(new AsyncMemoryCache());
+    await manager.setAsync("key", "value", undefined, undefined, { context: testContext });
+    expect(() => manager.get("key")).toThrow();
+    expect(await manager.getAsync("key")).toBe("value");
+    await manager.removeContextAsync(testContext);
+    expect(await manager.getAsync("key")).toBeUndefined();
+});
+
+test("Sweep expired items", async () => {
+    const manager = new CacheManager(new MemoryCache());
+    const options = { context: testContext, policy: { maxAge: 50 } };
+    manager.set("expiring", 1, undefined, undefined, options);
+    manager.set("permanent", 2, undefined, undefined, { context: testContext });
+    expect(manager.sweep()).toBe(0);
+    await wait(60);
+    expect(manager.sweep()).toBe(1);
+    expect(manager.storage.has("s:expiring")).toBe(false);
+    expect(manager.storage.has("s:permanent")).toBe(true);
+});
+
+test("Sweep expired items periodically", async () => {
+    const manager = new CacheManager(new MemoryCache(), { sweepInterval: 20 });
+    manager.set("expiring", 1, undefined, undefined, { policy: { maxAge: 10 } });
+    await wait(50);
+    manager.stopSweeping();
+    expect(manager.storage.has("s:expiring")).toBe(false);
+});
+
+test("Coalesce concurrent calls of a wrapped function", async () => {
+    const manager = new CacheManager(new AsyncMemoryCache());
+    let calls = 0;
+    const load = async (name: string): Promise<string> => {
+        calls++;
+        await wait(10);
+        return name;
+    };
+    const wrapped = manager.wrap(load, { dedupe: true });
+    const results = await Promise.all([wrapped(testName), wrapped(testName), wrapped(testName)]);
+    expect(results).toEqual([testName, testName, testName]);
+    expect(calls).toBe(1);
+});
+
+test("Share failures of coalesced calls without caching them", async () => {
+    const manager = new CacheManager(new AsyncMemoryCache());
+    let calls = 0;
+    const load = (name: string): string => {
+        calls++;
+        throw new Error(name);
+    };
+    const wrapped = manager.wrap(load, { dedupe: true }) as unknown as (name: string) => Promise<string>;
+    const results = await Promise.allSettled([wrapped(testName), wrapped(testName)]);
+    expect(results.map(result => result.status)).toEqual(["rejected", "rejected"]);
+    expect(calls).toBe(1);
+    await expect(wrapped(testName)).rejects.toThrow(testName);
+    expect(calls).toBe(2);
+});
+
+test("Return stale data while refreshing it", async () => {
+    const manager = new CacheManager(new MemoryCache());
+    let version = 0;
+    const next = (): number => ++version;
+    const wrapped = manager.wrap(next, { policy: { maxAge: 50, staleWhileRevalidate: 1000 } });
+    expect(wrapped()).toBe(1);
+    expect(manager.has([next.name, []])).toBe(true);
+    await wait(60);
+    expect(manager.has([next.name, []])).toBe(false);
+    expect(wrapped()).toBe(1);
+    expect(wrapped()).toBe(2);
+});
+
+test("Refresh data before it expires", async () => {
+    const manager = new CacheManager(new MemoryCache());
+    let version = 0;
+    const load = async (): Promise<number> => ++version;
+    const wrapped = manager.wrap(load, { policy: { maxAge: 100, refreshAhead: 0.5 } });
+    expect(await wrapped()).toBe(1);
+    await wait(60);
+    expect(await wrapped()).toBe(1);
+    await wait(0);
+    expect(await wrapped()).toBe(2);
+});
+
+test("Report errors of background refreshes", async () => {
+    const errors: unknown[] = [];
+    const manager = new CacheManager(new MemoryCache(), { onRefreshError: error => errors.push(error) });
+    let version = 0;
+    const load = (): number => {
+        if (++version > 1) {
+            throw new Error("Refresh failed");
+        }
+
+        return version;
+    };
+    const wrapped = manager.wrap(load, { policy: { maxAge: 10, staleWhileRevalidate: 1000 } });
+    expect(wrapped()).toBe(1);
+    await wait(20);
+    expect(wrapped()).toBe(1);
+    expect(errors).toHaveLength(1);
+});
+
+test("Emit cache events", () => {
+    const manager = new CacheManager(new MemoryCache());
+    const events: string[] = [];
+    const names = ["hit", "miss", "set", "remove", "contextRemoved", "clear"] as const;
+    for (const name of names) {
+        manager.on(name, () => events.push(name));
+    }
+
+    const wrapped = manager.wrap(getData, { context: testContext });
+    wrapped(testName, 10);
+    wrapped(testName, 10);
+    manager.removeContext(testContext);
+    manager.clear();
+    expect(events).toEqual(["miss", "set", "hit", "remove", "contextRemoved", "clear"]);
+});
+
+test("Count cache statistics per policy key", () => {
+    const manager = new CacheManager(new MemoryCache());
+    const policyKey = [TestClass, methodName];
+    const wrapped = manager.wrap(getData, { policyKey });
+    wrapped(testName, 10);
+    wrapped(testName, 10);
+    wrapped(testName, 10);
+    manager.get("unknown");
+
+    const stats = manager.getStats();
+    expect(stats).toMatchObject({ hits: 2, misses: 2, sets: 1, hitRatio: 0.5 });
+    expect(stats.policies).toEqual([expect.objectContaining({ policyKey, hits: 2, misses: 1, sets: 1 })]);
+    expect(stats.policies[0]?.hitRatio).toBeCloseTo(2 / 3);
+
+    manager.resetStats();
+    expect(manager.getStats()).toMatchObject({ hits: 0, misses: 0, policies: [] });
+});
+
+class ScopedClass {
+    constructor(public readonly tenant: string) { }
+
+    @cache({ scope: "instance" })
+    public getData(name: string): { name: string, tenant: string } {
+        return { name, tenant: this.tenant };
+    }
+
+    @cache({ scope(this: ScopedClass) { return this.tenant; } })
+    public getTenantData(name: string): { name: string, tenant: string } {
+        return { name, tenant: this.tenant };
+    }
+}
+
+test("Cache separately for each instance", () => {
+    cacheManager.clear();
+    const x = new ScopedClass(testName);
+    const y = new ScopedClass(testName);
+    const data = x.getData(testName);
+    expect(x.getData(testName)).toBe(data);
+    expect(y.getData(testName)).not.toBe(data);
+    expect(y.getData(testName)).toEqual(data);
+});
+
+test("Cache separately for each scope key", () => {
+    cacheManager.clear();
+    const x = new ScopedClass(testName);
+    const y = new ScopedClass(testName);
+    const z = new ScopedClass(testContext);
+    const data = x.getTenantData(testName);
+    expect(y.getTenantData(testName)).toBe(data);
+    expect(z.getTenantData(testName)).not.toBe(data);
+});
+
+test("Remove cached data of an instance", () => {
+    cacheManager.clear();
+    const x = new ScopedClass(testName);
+    const y = new ScopedClass(testContext);
+    const data = x.getData(testName);
+    const tenantData = x.getTenantData(testName);
+    const other = y.getData(testName);
+    expect(removeInstanceCache(x)).toBe(2);
+    expect(x.getData(testName)).not.toBe(data);
+    expect(x.getTenantData(testName)).not.toBe(tenantData);
+    expect(y.getData(testName)).toBe(other);
+
+    // Methods are found on base classes
+    class DerivedClass extends ScopedClass { }
+    const derived = new DerivedClass(testName);
+    const derivedData = derived.getData(testName);
+    // The data of the instance, and the tenant data it shares with x
+    expect(removeInstanceCache(derived)).toBe(2);
+    expect(derived.getData(testName)).not.toBe(derivedData);
+});
+
+test("Remove cached data of an instance from asynchronous storage", async () => {
+    const manager = new CacheManager(new AsyncMemoryCache());
+    class AsyncScopedClass {
+        @cache({ manager, scope: "instance" })
+        public async getData(name: string): Promise<string> {
+            return name;
+        }
+    }
+
+    const x = new AsyncScopedClass();
+    const y = new AsyncScopedClass();
+    await x.getData(testName);
+    await y.getData(testName);
+    expect(await removeInstanceCacheAsync(x)).toBe(1);
+    expect(await manager.sizeAsync()).toBe(1);
+    expect(() => removeInstanceCache(y)).toThrow("The cache storage is asynchronous.");
+});
+
+test("Ignore parameters that are not part of the cache key", () => {
+    const manager = new CacheManager(new MemoryCache());
+    const load = (name: string, logger: unknown, count: number): { name: string, count: number } => ({ name, count });
+    const ignoring = manager.wrap(load, { ignoreArgs: [1] });
+    const data = ignoring(testName, {}, 10);
+    expect(ignoring(testName, [], 10)).toBe(data);
+    expect(ignoring(testName, {}, 20)).not.toBe(data);
+
+    const selecting = manager.wrap(load, { argIndexes: [0] });
+    expect(selecting(testName, {}, 20)).toBe(selecting(testName, [], 10));
+
+    const keyed = manager.wrap(load, { key: (name: unknown) => (name as string).toLowerCase() });
+    expect(keyed("FOO", {}, 10)).toBe(keyed("foo", {}, 10));
+});
+
+test("Calculate hashes of keys with custom hasher", () => {
+    const manager = new CacheManager(new MemoryCache(), { keyHasher: jsonKeyHasher });
+    const circular: { name: string, self?: unknown } = { name: testName };
+    circular.self = circular;
+    const equal: { self?: unknown, name: string } = { name: testName };
+    equal.self = equal;
+    manager.set([circular, new Date(0)], 1);
+    expect(manager.get([equal, new Date(0)])).toBe(1);
+    expect(manager.has([{ name: testName }, new Date(0)])).toBe(false);
+
+    // Strings and hashes of other keys never collide
+    manager.set(jsonKeyHasher(["a"]), 2);
+    expect(manager.get(["a"])).toBeUndefined();
+});
+
+test("Never mix up classes and symbols with the same name", () => {
+    const first = (() => class Service {
+        public id = 1;
+    })();
+    const second = (() => class Service {
+        public id = 2;
+    })();
+    const copy = (() => class Service {
+        public id = 1;
+    })();
+    for (const keyHasher of [objectKeyHasher, jsonKeyHasher]) {
+        expect(keyHasher([first, "load"])).not.toBe(keyHasher([second, "load"]));
+        expect(keyHasher([first, "load"])).toBe(keyHasher([first, "load"]));
+
+        // Classes with the same name and code are identified the same way in every process, whatever is hashed first
+        expect(keyHasher([second, "load"])).not.toBe(keyHasher([copy, "load"]));
+        expect(keyHasher([copy, "load"])).toBe(keyHasher([first, "load"]));
+        expect(keyHasher(Symbol("id"))).not.toBe(keyHasher(Symbol("id")));
+        expect(keyHasher(Symbol.for("id"))).toBe(keyHasher(Symbol.for("id")));
+    }
+
+    const manager = new CacheManager(new MemoryCache());
+    class A {
+        @cache({ manager })
+        public load(): string {
+            return "A";
+        }
+    }
+    const B = (() => {
+        class A {
+            @cache({ manager })
+            public load(): string {
+                return "B";
+            }
+        }
+        return A;
+    })();
+    expect(new A().load()).toBe("A");
+    expect(new B().load()).toBe("B");
+});
+
+test("Remove cached data with any of multiple contexts", () => {
+    const manager = new CacheManager(new MemoryCache());
+    manager.set("student", 1, undefined, undefined, { context: ["student:42", "school:7/roster"] });
+    manager.set("teacher", 2, undefined, undefined, { context: ["teacher:3", "school:7/staff"] });
+    manager.set("school", 3, undefined, undefined, { context: "school:8" });
+    manager.removeContext("student:42");
+    expect(manager.has("student")).toBe(false);
+    expect(manager["_contexts"]["school:7/roster"]).toBeUndefined();
+
+    manager.set("student", 1, undefined, undefined, { context: ["student:42", "school:7/roster"] });
+    manager.removeContextPrefix("school:7/");
+    expect(manager.has("student")).toBe(false);
+    expect(manager.has("teacher")).toBe(false);
+    expect(manager.has("school")).toBe(true);
+
+    manager.removeContexts(["school:8", "unknown"]);
+    expect(manager.has("school")).toBe(false);
+    expect(manager["_contexts"]).toEqual({});
+});
+
+test("Remove overwritten cached data from its old contexts", () => {
+    const manager = new CacheManager(new MemoryCache());
+    manager.set("key", 1, undefined, undefined, { context: "old" });
+    manager.set("key", 2, undefined, undefined, { context: "new" });
+    manager.removeContext("old");
+    expect(manager.get("key")).toBe(2);
+    expect(manager["_contexts"]["old"]).toBeUndefined();
+});
+
+test("Cache only values that pass the conditions", async () => {
+    const manager = new CacheManager(new MemoryCache());
+    const load = (items: number[]): number[] | undefined => items.length > 1 ? items : items.length ? [] : undefined;
+    const wrapped = manager.wrap(load, {
+        unless: value => value === undefined,
+        policy: { maxAge: 1000, shouldCache: value => (value as number[]).length > 0 }
+    });
+    wrapped([]);
+    wrapped([1]);
+    wrapped([1, 2]);
+    expect(manager.has([load.name, [[]]])).toBe(false);
+    expect(manager.has([load.name, [[1]]])).toBe(false);
+    expect(manager.has([load.name, [[1, 2]]])).toBe(true);
+
+    const loadAsync = async (id: number): Promise<{ error?: string, id: number }> => id > 0 ? { id } : { error: "Not found", id };
+    const wrappedAsync = manager.wrap(loadAsync, { shouldCache: value => !(value as { error?: string }).error });
+    const notFound = wrappedAsync(0);
+    expect(manager.has([loadAsync.name, [0]])).toBe(true);
+    await notFound;
+    expect(manager.has([loadAsync.name, [0]])).toBe(false);
+    await wrappedAsync(1);
+    expect(manager.has([loadAsync.name, [1]])).toBe(true);
+});
+
+test("Return values whose conditions fail without caching them", async () => {
+    const manager = new CacheManager(new AsyncMemoryCache());
+    const errors: unknown[] = [];
+    manager.on("loadError", ({ error }) => errors.push((error as Error).message));
+    const load = async (id: number): Promise<number> => id;
+    const unless = manager.wrap(load, { unless: () => { throw new Error("unless"); } });
+    const resultMaxAge = manager.wrap(load, { policy: { maxAge: 1000, resultMaxAge: () => { throw new Error("resultMaxAge"); } } });
+    expect(await unless(1)).toBe(1);
+    expect(await resultMaxAge(2)).toBe(2);
+    await wait(10);
+    expect(await manager.sizeAsync()).toBe(0);
+    expect(errors).toEqual(["unless", "resultMaxAge"]);
+
+    const syncManager = new CacheManager(new MemoryCache());
+    const loadSync = (id: number): number => id;
+    const policy = { maxAge: 1000, resultMaxAge: (): number => { throw new Error("resultMaxAge"); } };
+    expect(syncManager.wrap(loadSync, { policy })(3)).toBe(3);
+    expect(syncManager.size).toBe(0);
+});
+
+test("Calculate max age from cached values", async () => {
+    const manager = new CacheManager(new MemoryCache());
+    const policy = { maxAge: 1000, resultMaxAge: (value: unknown) => (value as { ttl: number }).ttl };
+    manager.set("sync", { ttl: 10 }, undefined, undefined, { policy });
+    expect((manager.getCacheItem("sync") as ICacheItem).maxAge).toBe(10);
+
+    const loadTtl = async (ttl: number): Promise<{ ttl: number }> => ({ ttl });
+    const wrapped = manager.wrap(loadTtl, { policy });
+    const value = wrapped(20);
+    const cacheItem = manager.getCacheItem([loadTtl.name, [20]]) as ICacheItem;
+    expect(cacheItem.maxAge).toBe(1000);
+    await value;
+    expect(cacheItem.maxAge).toBe(20);
+});
+
+test("Cache errors for a separate max age", async () => {
+    const manager = new CacheManager(new MemoryCache());
+    let calls = 0;
+    const load = (id: number): number => {
+        calls++;
+        throw new Error(id > 0 ? "Unavailable" : "Not found");
+    };
+    const policy = {
+        maxAge: 1000,
+        errorMaxAge: 50,
+        cacheError: (error: unknown) => (error as Error).message === "Not found"
+    };
+    const wrapped = manager.wrap(load, { policy });
+    expect(() => wrapped(0)).toThrow("Not found");
+    expect(() => wrapped(0)).toThrow("Not found");
+    expect(calls).toBe(1);
+    expect(() => manager.get([load.name, [0]])).toThrow("Not found");
+    expect(() => wrapped(1)).toThrow("Unavailable");
+    expect(() => wrapped(1)).toThrow("Unavailable");
+    expect(calls).toBe(3);
+
+    const loadAsync = async (): Promise<number> => {
+        calls++;
+        throw new Error("Not found");
+    };
+    const wrappedAsync = manager.wrap(loadAsync, { policy });
+    await expect(wrappedAsync()).rejects.toThrow("Not found");
+    await expect(wrappedAsync()).rejects.toThrow("Not found");
+    expect(calls).toBe(4);
+    expect((manager.getCacheItem([loadAsync.name, []]) as ICacheItem).maxAge).toBe(50);
+
+    await wait(60);
+    expect(() => wrapped(0)).toThrow("Not found");
+    await expect(wrappedAsync()).rejects.toThrow("Not found");
+    expect(calls).toBe(6);
+});
+
+test("Get, set and remove multiple items at once", () => {
+    const manager = new CacheManager(new MemoryCache());
+    const sets: unknown[] = [];
+    manager.on("set", ({ cacheItem }) => sets.push(cacheItem.key));
+    manager.setMany([["a", 1], ["b", 2], ["c", undefined]], { context: "bulk", unless: value => value === undefined });
+    expect(sets).toEqual(["a", "b"]);
+    expect(manager.getMany(["a", "b", "c"])).toEqual([1, 2, undefined]);
+    expect(manager.removeMany(["a", "c"])).toBe(1);
+    expect(manager.getMany(["a", "b"])).toEqual([undefined, 2]);
+    manager.removeContext("bulk");
+    expect(manager.has("b")).toBe(false);
+});
+
+test("Use bulk operations of storages", async () => {
+    const calls: string[] = [];
+    class BulkMemoryCache extends MemoryCache {
+        public getMany(hashes: string[]): (ICacheItem | undefined)[] {
+            calls.push("getMany");
+            return hashes.map(hash => this.get(hash));
+        }
+
+        public setMany(entries: [string, ICacheItem][]): void {
+            calls.push("setMany");
+            entries.forEach(([hash, cacheItem]) => this.set(hash, cacheItem));
+        }
+
+        public removeMany(hashes: string[]): (ICacheItem | undefined)[] {
+            calls.push("removeMany");
+            return hashes.map(hash => this.remove(hash));
+        }
+    }
+
+    const manager = new CacheManager(new BulkMemoryCache());
+    manager.setMany([["a", 1], ["b", Promise.resolve(2)], ["c", 3]], { context: "bulk" });
+    expect(manager.getMany(["a", "c"])).toEqual([1, 3]);
+    expect(await manager.get("b")).toBe(2);
+    expect(manager.removeMany(["a"])).toBe(1);
+    manager.removeContext("bulk");
+    expect(manager.getMany(["b", "c"])).toEqual([undefined, undefined]);
+    expect(calls).toEqual(["setMany", "getMany", "removeMany", "getMany"]);
+});
+
+test("Prime wrapped functions and decorated methods", () => {
+    let calls = 0;
+    const load = (id: number): number => id + ++calls;
+    const wrapped = cacheManager.wrap(load, { key: (id: unknown) => id });
+    expect(wrapped(1)).toBe(2);
+    expect(cacheManager.prime(wrapped, 1)).toBe(3);
+    expect(wrapped(1)).toBe(3);
+
+    class PrimedClass {
+        public offset = 10;
+
+        @cache()
+        public load(id: number): number {
+            return id + this.offset + ++calls;
+        }
+    }
+
+    const instance = new PrimedClass();
+    expect(cacheManager.prime(instance.load.bind(instance), 1)).toBe(14);
+    expect(instance.load(1)).toBe(14);
+    expect(calls).toBe(3);
+});
+
+test("Never call functions that are not wrapped to locate or prime them", () => {
+    let calls = 0;
+    const locate = (id: number): number => id + ++calls;
+    const wrapped = cacheManager.wrap(locate);
+    const unwrapped = (id: number): unknown => wrapped(id);
+    expect(wrapped(1)).toBe(2);
+    expect(() => cacheManager.keyOf(unwrapped, 1)).toThrow("unwrapped is not wrapped by a cache manager.");
+    expect(() => cacheManager.prime(unwrapped, 1)).toThrow("unwrapped is not wrapped by a cache manager.");
+    expect(CacheManager.locate(unwrapped, 1)).toBeUndefined();
+    expect(calls).toBe(1);
+
+    // Nothing is left over for the next call
+    expect(wrapped(1)).toBe(2);
+    expect(cacheManager.keyOf(wrapped, 1)).toEqual(["locate", [1]]);
+    expect(calls).toBe(1);
+});
+
+test("Infer parameter types of callbacks from wrapped functions", () => {
+    const manager = new CacheManager(new MemoryCache());
+    const load = (id: number, name: string): string => `${name}${id}`;
+    const wrapped = manager.wrap(load, {
+        key: (id, name) => [name.toUpperCase(), id.toFixed(0)],
+        context: (id) => id > 1 ? "large" : "small",
+        policy: { maxAge: (id) => id * 100, cacheError: (error, id) => id > 0 }
+    });
+    expect(wrapped(2, "a")).toBe("a2");
+    expect(manager.get<string>([load.name, [["A", "2"]]])).toBe("a2");
+    manager.removeContext("large");
+    expect(manager.has([load.name, [["A", "2"]]])).toBe(false);
+});
+
+test("Save typed values to cache regions", async () => {
+    const manager = new CacheManager(new MemoryCache());
+    const users = manager.createRegion<number, { name: string }>({ name: "users", context: id => `user-${id}` });
+    const posts = manager.createRegion<number, string>({ name: "posts" });
+    users.set(1, { name: "foo" });
+    users.set(2, { name: "bar" });
+    posts.set(1, "baz");
+    expect(users.get(1)?.name).toBe("foo");
+    expect(await posts.getAsync(1)).toBe("baz");
+    expect(manager.has(1)).toBe(false);
+
+    manager.removeContext("user-2");
+    expect(users.has(2)).toBe(false);
+    expect(users.clear()).toBe(1);
+    expect(users.has(1)).toBe(false);
+    expect(posts.has(1)).toBe(true);
+    expect(await posts.removeAsync(1)).toBe(true);
+});
+
+test("Decorate methods with standard decorators", () => {
+    const manager = new CacheManager(new MemoryCache());
+    const decorator = cache({ manager, context: "standard", scope: "instance" });
+    const initializers: ((this: unknown) => void)[] = [];
+    let calls = 0;
+
+    class StandardClass {
+        constructor(public readonly offset: number) { }
+
+        public load(id: number): number {
+            return id + this.offset + ++calls;
+        }
+    }
+
+    const load = decorator(StandardClass.prototype.load, {
+        kind: "method", name: "load", static: false, addInitializer: initializer => initializers.push(initializer)
+    });
+    StandardClass.prototype.load = load;
+
+    const instance = new StandardClass(10);
+    initializers.forEach(initializer => initializer.call(instance));
+    expect(instance.load(1)).toBe(12);
+    expect(instance.load(1)).toBe(12);
+    expect(new StandardClass(20).load(1)).toBe(23);
+    removeInstanceCache(instance);
+    expect(instance.load(1)).toBe(14);
+    manager.removeContext("standard");
+    expect(instance.load(1)).toBe(15);
+});
+
+test("Inspect cached items", () => {
+    const clock = new ManualClock();
+    const manager = new CacheManager(new MemoryCache(), { clock });
+    manager.set("a", 1, undefined, undefined, { context: ["x", "y"], policyKey: "short", policy: { maxAge: 100 } });
+    manager.set(["b"], Promise.resolve(2), undefined, undefined, { context: "y" });
+    manager.set("c", 3, undefined, undefined, { policy: { maxAge: 10 } });
+    clock.advance(30);
+    expect(manager.keys()).toEqual(["a", ["b"]]);
+    expect(manager.entries()).toEqual([["a", 1], [["b"], expect.any(Promise)]]);
+    expect(manager.size).toBe(2);
+    expect(manager.contexts().sort()).toEqual(["x", "y"]);
+    expect(manager.inspect("a")).toEqual({
+        key: "a",
+        context: ["x", "y"],
+        policyKey: "short",
+        created: new Date(0),
+        accessed: new Date(0),
+        age: 30,
+        maxAge: 100,
+        ttl: 70,
+        expired: false,
+        promise: false
+    });
+    expect(manager.inspect("c")).toMatchObject({ ttl: -20, expired: true });
+    expect(manager.inspect("d")).toBeUndefined();
+    expect(manager.getStats().hits).toBe(0);
+});
+
+test("Export and import snapshots", async () => {
+    const clock = new ManualClock();
+    const source = new CacheManager(new MemoryCache(), { clock });
+    source.set("a", new Map([[1, new Date(5)]]), undefined, undefined, { context: "x", policy: { maxAge: 100, sliding: true } });
+    source.set("b", 2, undefined, undefined, { policy: { maxAge: 50 } });
+    source.set("c", Promise.resolve(3));
+    source.set("d", () => 4);
+    source.set("e", 5, undefined, undefined, { policy: { maxAge: 10 } });
+    clock.advance(20);
+    const skipped: unknown[] = [];
+    source.on("snapshotSkip", ({ cacheItem, reason }) => skipped.push([cacheItem && cacheItem.key, reason]));
+    const snapshot = source.exportSnapshot();
+    expect(JSON.parse(snapshot)).toMatchObject({ skipped: 1 });
+    expect(skipped).toEqual([["d", "unserializable"]]);
+
+    clock.advance(40);
+    const target = new CacheManager(new MemoryCache(), { clock, namespace: "next" });
+    expect(target.importSnapshot(snapshot)).toBe(1);
+    expect(target.inspect("a")).toMatchObject({ age: 60, maxAge: 100, context: "x" });
+    expect(target.get("a")).toEqual(new Map([[1, new Date(5)]]));
+    expect(target.has("b")).toBe(false);
+    target.removeContext("x");
+    expect(target.size).toBe(0);
+
+    const asyncTarget = new CacheManager(new MemoryCache(), { clock });
+    expect(await asyncTarget.importSnapshotAsync(await source.exportSnapshotAsync())).toBe(1);
+    expect(await asyncTarget.keysAsync()).toEqual(["a"]);
+});
+
+test("Export and import snapshots of decorated methods", () => {
+    const source = new CacheManager(new MemoryCache());
+    let loads = 0;
+    class ReportService {
+        @cache({ manager: source, policy: { maxAge: 60000 } })
+        public getReport(id: number): string {
+            loads++;
+            return `report ${id}`;
+        }
+    }
+
+    new ReportService().getReport(1);
+    const snapshot = source.exportSnapshot();
+    expect(JSON.parse(snapshot)).toMatchObject({ skipped: 0 });
+
+    const target = new CacheManager(new MemoryCache());
+    expect(target.importSnapshot(snapshot)).toBe(1);
+    expect(target.get([ReportService, "getReport", 1])).toBe("report 1");
+    expect(loads).toBe(1);
+
+    // Nothing is imported by a manager which does not save items
+    const readOnly = new CacheManager(new MemoryCache());
+    const skipped: string[] = [];
+    readOnly.on("snapshotSkip", ({ reason }) => skipped.push(reason));
+    readOnly.setMode("readOnly");
+    expect(readOnly.importSnapshot(snapshot)).toBe(0);
+    expect(readOnly.size).toBe(0);
+    expect(skipped).toEqual(["readOnly"]);
+});
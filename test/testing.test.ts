@@ -0,0 +1,62 @@
+import { cache } from "../src/cache-decorator";
+import { CacheManager } from "../src/cache-manager";
+import { expectCached, expectNotCached, ManualClock, RecordingCache } from "../src/testing";
+
+test("Expire items by a manual clock", () => {
+    const clock = new ManualClock(new Date(2020, 0, 1));
+    const manager = new CacheManager(new RecordingCache(), { clock });
+    manager.set("key", 1, undefined, undefined, { policy: { maxAge: 1000 } });
+    manager.set("sliding", 2, undefined, undefined, { policy: { maxAge: 1000, sliding: true } });
+    expect(manager.getCacheItem("key")?.created).toEqual(new Date(2020, 0, 1));
+
+    clock.advance(600);
+    expect(manager.get("sliding")).toBe(2);
+    clock.advance(600);
+    expect(manager.has("key")).toBe(false);
+    expect(manager.get("sliding")).toBe(2);
+});
+
+test("Record operations of a storage", () => {
+    const storage = new RecordingCache();
+    const manager = new CacheManager(storage);
+    storage.resetOperations();
+    manager.set("a", 1);
+    manager.get("a");
+    manager.remove("b");
+    expect(storage.operations).toEqual([
+        { name: "set", hash: "s:a" },
+        { name: "get", hash: "s:a" },
+        { name: "remove", hash: "s:b" }
+    ]);
+    expect(storage.count("get")).toBe(1);
+    expect(storage.items()).toMatchObject([{ key: "a", value: 1 }]);
+    expect(storage.count()).toBe(3);
+});
+
+test("Assert that results of wrapped functions are cached", () => {
+    const clock = new ManualClock();
+    const manager = new CacheManager(new RecordingCache(), { clock });
+    let calls = 0;
+    const load = manager.wrap((id: number) => id + ++calls, { policy: { maxAge: 100 } });
+
+    class Service {
+        @cache({ manager, scope: "instance" })
+        public load(id: number): number {
+            return id + ++calls;
+        }
+    }
+
+    const service = new Service();
+    expectNotCached(load, 1);
+    load(1);
+    expectCached(load, 1);
+    expect(() => expectNotCached(load, 1)).toThrow("Expected the result of the call with (1) not to be cached.");
+    clock.advance(101);
+    expect(() => expectCached(load, 1)).toThrow("Expected the result of the call with (1) to be cached.");
+
+    service.load(2);
+    expectCached(service.load.bind(service), 2);
+    expectNotCached(new Service().load.bind(new Service()), 2);
+    expect(calls).toBe(2);
+    expect(() => expectCached((id: number) => id, 1)).toThrow("is not wrapped by a cache manager.");
+});
@@ -0,0 +1,56 @@
+import { ICacheItem } from "../src/cache-item";
+import { CacheManager } from "../src/cache-manager";
+import { MemoryCache } from "../src/memory-cache";
+import { TieredCache } from "../src/tiered-cache";
+
+function createItem(key: string, created = 0): ICacheItem {
+    return { key, value: key, maxAge: 1000, created: new Date(created), accessed: new Date(created) };
+}
+
+test("Promote items from slower tiers with their metadata", () => {
+    const memory = new MemoryCache({ maxEntries: 1 });
+    const slow = new MemoryCache();
+    const storage = new TieredCache([memory, slow]);
+    storage.set("a", createItem("a", 1));
+    storage.set("b", createItem("b", 2));
+    expect(memory.has("a")).toBe(false);
+    expect(slow.has("a")).toBe(true);
+
+    const item = storage.get("a");
+    expect(item && item.created).toEqual(new Date(1));
+    expect(memory.get("a")).toBe(item);
+});
+
+test("Write items back to slower tiers", () => {
+    const memory = new MemoryCache({ maxEntries: 1 });
+    const slow = new MemoryCache();
+    const storage = new TieredCache([memory, slow], { writeMode: "write-back" });
+    storage.set("a", createItem("a"));
+    expect(slow.has("a")).toBe(false);
+    storage.set("b", createItem("b"));
+    expect(slow.has("a")).toBe(true);
+    expect(slow.has("b")).toBe(false);
+    storage.flush();
+    expect(slow.has("b")).toBe(true);
+});
+
+test("Remove items from all tiers", () => {
+    const memory = new MemoryCache();
+    const slow = new MemoryCache();
+    const manager = new CacheManager(new TieredCache([memory, slow]));
+    manager.set("a", 1, undefined, undefined, { context: "context" });
+    manager.removeContext("context");
+    expect(memory.has("s:a")).toBe(false);
+    expect(slow.has("s:a")).toBe(false);
+});
+
+test("Evict items only when no tier has them", () => {
+    const storage = new TieredCache([new MemoryCache({ maxEntries: 1 }), new MemoryCache({ maxEntries: 2 })]);
+    const evicted: string[] = [];
+    storage.addEvictionListener(hash => evicted.push(hash));
+    storage.set("a", createItem("a", 1));
+    storage.set("b", createItem("b", 2));
+    expect(evicted).toEqual([]);
+    storage.set("c", createItem("c", 3));
+    expect(evicted).toEqual(["a"]);
+});